@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { apiFetch, errorMessage } from "./api";
+import { money, parseMoneyInput } from "./format";
+
+export type Account = {
+  id: string;
+  name: string;
+  kind: "checking" | "savings" | "credit-card" | "cash";
+  openingBalance: number;
+  balance: number;
+  transactionCount: number;
+};
+
+const KIND_LABELS: Record<Account["kind"], string> = {
+  checking: "Checking",
+  savings: "Savings",
+  "credit-card": "Credit card",
+  cash: "Cash",
+};
+
+export function AccountsPanel({ accounts, onChanged }: { accounts: Account[]; onChanged: () => void }) {
+  const [msg, setMsg] = useState("");
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<Account["kind"]>("checking");
+  const [openingBalance, setOpeningBalance] = useState("");
+
+  async function send(path: string, method: string, body?: unknown) {
+    const res = await apiFetch(path, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setMsg(`Error: ${errorMessage(data, "Request failed")}`);
+      return null;
+    }
+    setMsg("");
+    onChanged();
+    return data;
+  }
+
+  async function addAccount() {
+    const created = await send("/accounts", "POST", {
+      name: name.trim(),
+      kind,
+      openingBalance: openingBalance.trim() ? parseMoneyInput(openingBalance) : 0,
+    });
+    if (!created) return;
+    setName("");
+    setOpeningBalance("");
+  }
+
+  async function rename(account: Account) {
+    const next = window.prompt("Account name", account.name)?.trim();
+    if (next && next !== account.name) await send(`/accounts/${account.id}`, "PATCH", { name: next });
+  }
+
+  async function findTransfers() {
+    const data = await send("/transactions/transfers/match", "POST");
+    if (data) setMsg(`Linked ${data.linked} transfer${data.linked === 1 ? "" : "s"}`);
+  }
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <input placeholder="Account name" value={name} onChange={(e) => setName(e.target.value)} />
+        <select value={kind} onChange={(e) => setKind(e.target.value as Account["kind"])}>
+          {Object.entries(KIND_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          placeholder="Opening balance"
+          inputMode="decimal"
+          value={openingBalance}
+          onChange={(e) => setOpeningBalance(e.target.value)}
+          style={{ width: 120 }}
+        />
+        <button onClick={addAccount} disabled={!name.trim()}>
+          Add account
+        </button>
+        <button onClick={findTransfers} title="Link payments and transfers between your accounts">
+          Find transfers
+        </button>
+      </div>
+      {msg && <div style={{ marginTop: 8, opacity: 0.85, whiteSpace: "pre-wrap" }}>{msg}</div>}
+      <table style={{ width: "100%", marginTop: 12, borderCollapse: "collapse" }}>
+        <tbody>
+          {accounts.map((a) => (
+            <tr key={a.id}>
+              <td style={{ padding: "4px 6px" }}>{a.name}</td>
+              <td style={{ padding: "4px 6px" }}>{KIND_LABELS[a.kind]}</td>
+              <td style={{ padding: "4px 6px", opacity: 0.7 }}>{a.transactionCount} transactions</td>
+              <td style={{ padding: "4px 6px", textAlign: "right", fontWeight: 600 }}>{money(a.balance)}</td>
+              <td style={{ padding: "4px 6px", textAlign: "right", whiteSpace: "nowrap" }}>
+                <button onClick={() => rename(a)}>Rename</button>
+                <button
+                  style={{ marginLeft: 4 }}
+                  onClick={() => send(`/accounts/${a.id}`, "DELETE")}
+                  disabled={a.transactionCount > 0}
+                  title={a.transactionCount > 0 ? "Undo this account's imports first" : undefined}
+                >
+                  Delete
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
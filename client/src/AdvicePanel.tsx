@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { apiFetch, errorMessage } from "./api";
+import type { Theme } from "./theme";
+
+export type AdviceItem = {
+  id: string;
+  ruleId: string;
+  title: string;
+  detail: string;
+  explanation: string;
+  severity: "info" | "warn" | "urgent";
+  transactionIds?: string[];
+};
+
+type AdviceRule = {
+  id: string;
+  name: string;
+  description: string;
+  enabled: boolean;
+  defaults: Record<string, number>;
+  thresholds: Record<string, number>;
+};
+
+const SEVERITY_COLORS: Record<AdviceItem["severity"], string> = {
+  urgent: "#ef4444",
+  warn: "#f59e0b",
+  info: "#10b981",
+};
+
+const SNOOZE_DAYS = 30;
+
+function snoozeUntil() {
+  return new Date(Date.now() + SNOOZE_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/** Advice items with dismiss/snooze, plus per-rule on/off switches and thresholds. */
+export function AdvicePanel({ advice, theme, onChanged }: { advice: AdviceItem[]; theme: Theme; onChanged: () => void }) {
+  const [open, setOpen] = useState<string | null>(null);
+  const [rules, setRules] = useState<AdviceRule[]>([]);
+  const [msg, setMsg] = useState("");
+
+  function refreshRules() {
+    return apiFetch("/advice/rules")
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setRules);
+  }
+
+  useEffect(() => {
+    refreshRules();
+  }, []);
+
+  async function send(path: string, method: string, body?: unknown) {
+    const res = await apiFetch(path, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setMsg(`Error: ${errorMessage(data, "Request failed")}`);
+      return null;
+    }
+    setMsg("");
+    onChanged();
+    return data;
+  }
+
+  async function dismiss(item: AdviceItem, until: string | null) {
+    await send("/advice/dismissals", "POST", { adviceId: item.id, until });
+  }
+
+  async function updateRule(rule: AdviceRule, patch: { enabled?: boolean; thresholds?: Record<string, number> }) {
+    if (await send(`/advice/rules/${rule.id}`, "PATCH", patch)) await refreshRules();
+  }
+
+  const button = {
+    background: "none",
+    border: `1px solid ${theme.border}`,
+    borderRadius: 6,
+    padding: "2px 8px",
+    fontSize: 12,
+    cursor: "pointer",
+    color: theme.textMuted,
+  };
+
+  return (
+    <div>
+      {advice.length === 0 && <div style={{ color: theme.textMuted, fontSize: 14 }}>No advice right now</div>}
+      <div style={{ display: "flex", flexDirection: "column", gap: 12 }}>
+        {advice.map((item) => (
+          <div
+            key={item.id}
+            style={{ borderLeft: `4px solid ${SEVERITY_COLORS[item.severity]}`, padding: "8px 12px", background: theme.categoryBg, borderRadius: 6 }}
+          >
+            <div style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
+              <span style={{ fontSize: 14, fontWeight: 600, color: theme.text }}>{item.title}</span>
+              <span style={{ display: "flex", gap: 4, flexShrink: 0 }}>
+                <button style={button} onClick={() => setOpen(open === item.id ? null : item.id)}>
+                  Why?
+                </button>
+                <button style={button} onClick={() => dismiss(item, snoozeUntil())} title={`Hide for ${SNOOZE_DAYS} days`}>
+                  Snooze
+                </button>
+                <button style={button} onClick={() => dismiss(item, null)}>
+                  Dismiss
+                </button>
+              </span>
+            </div>
+            <div style={{ fontSize: 13, color: theme.textMuted, marginTop: 4 }}>{item.detail}</div>
+            {open === item.id && <div style={{ fontSize: 12, color: theme.textMuted, marginTop: 6, fontStyle: "italic" }}>{item.explanation}</div>}
+          </div>
+        ))}
+      </div>
+      {msg && <div style={{ marginTop: 8, fontSize: 13, opacity: 0.85, whiteSpace: "pre-wrap" }}>{msg}</div>}
+      <details style={{ marginTop: 16, fontSize: 13, color: theme.text }}>
+        <summary style={{ cursor: "pointer", color: theme.textMuted }}>Advice rules</summary>
+        <table style={{ width: "100%", marginTop: 8, borderCollapse: "collapse" }}>
+          <tbody>
+            {rules.map((rule) => (
+              <tr key={rule.id} style={{ verticalAlign: "top" }}>
+                <td style={{ padding: "4px 6px" }}>
+                  <label title={rule.description}>
+                    <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(rule, { enabled: e.target.checked })} />{" "}
+                    {rule.name}
+                  </label>
+                </td>
+                <td style={{ padding: "4px 6px" }}>
+                  {Object.entries(rule.thresholds).map(([name, value]) => (
+                    <label key={`${name}:${value}`} style={{ marginRight: 12, whiteSpace: "nowrap" }}>
+                      {name}{" "}
+                      <input
+                        type="number"
+                        step="any"
+                        min={0}
+                        defaultValue={value}
+                        title={`Default: ${rule.defaults[name]}`}
+                        onBlur={(e) => {
+                          const next = Number(e.target.value);
+                          if (e.target.value !== "" && next !== value) updateRule(rule, { thresholds: { [name]: next } });
+                        }}
+                        style={{ width: 70 }}
+                      />
+                    </label>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  );
+}
@@ -1,57 +1,64 @@
 import { useEffect, useState } from "react";
+import { apiFetch, loadSession, saveSession, setSignedOutHandler, type Session } from "./api";
+import { BudgetProgress, type BudgetStatus } from "./BudgetProgress";
+import { AccountsPanel, type Account } from "./AccountsPanel";
+import { AdvicePanel, type AdviceItem } from "./AdvicePanel";
+import { BudgetsPanel } from "./BudgetsPanel";
 import { CsvImport } from "./CsvImport";
-type Tx = {
-  id: string;
-  date: string;
-  name: string;
-  amount: number;
-  category?: string;
-};
-
+import { ForecastChart, type Forecast } from "./ForecastChart";
+import { GoalsPanel, type GoalsOverview } from "./GoalsPanel";
+import { ALL_TIME, filterQuery, type Facets, type Filters } from "./filters";
+import { Login } from "./Login";
+import { MerchantsPanel } from "./MerchantsPanel";
+import { PeriodSelector } from "./PeriodSelector";
+import { RulesPanel } from "./RulesPanel";
+import { SettingsPanel, type Settings } from "./SettingsPanel";
+import { SubscriptionsPanel, type RecurringSeries } from "./SubscriptionsPanel";
+import { TopMerchants, type MerchantSort, type MerchantSpend } from "./TopMerchants";
+import { TrendChart, type TrendBucket, type TrendInterval } from "./TrendChart";
+import { TransactionsTable } from "./TransactionsTable";
+import { money, setMoneyFormat } from "./format";
+import { makeTheme } from "./theme";
 type Totals = {
-  income: number;
+  income: number; // the expected income from settings when incomeSource is "expected"
+  actualIncome: number;
+  incomeSource: "actual" | "expected";
   expenses: number;
   net: number;
   byCategory: Record<string, number>;
 };
 
-function money(n: number) {
-  return n.toLocaleString(undefined, { style: "currency", currency: "USD" });
-}
-
-function parseMoneyInput(v: string) {
-  const cleaned = v.replace(/[^0-9.-]/g, "");
-  const n = Number(cleaned);
-  return Number.isFinite(n) ? n : NaN;
-}
-
 export default function App() {
-  const [tx, setTx] = useState<Tx[]>([]);
+  const [session, setSession] = useState<Session | null>(loadSession);
+  // Bumped on every refresh so the transactions table reloads its page.
+  const [revision, setRevision] = useState(0);
   const [totals, setTotals] = useState<Totals | null>(null);
   const [loadingTotals, setLoadingTotals] = useState(false);
-  const [incomeOverride, setIncomeOverride] = useState<number | null>(null);
-  const [categoryFilter, setCategoryFilter] = useState<string>("All");
   const [isDark, setIsDark] = useState(true);
+  const [filters, setFilters] = useState<Filters>(ALL_TIME);
+  const [facets, setFacets] = useState<Facets>({ months: [], accounts: [], categories: [], tags: [] });
 
-  const categories = Array.from(
-    new Set(tx.map((t) => (t.category?.trim() ? t.category : "Uncategorized")))
-  ).sort();
-
-  const filteredTx =
-    categoryFilter === "All"
-      ? tx
-      : tx.filter((t) => (t.category?.trim() ? t.category : "Uncategorized") === categoryFilter);
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+  const [recurring, setRecurring] = useState<RecurringSeries[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [trends, setTrends] = useState<TrendBucket[]>([]);
+  const [advice, setAdvice] = useState<AdviceItem[]>([]);
+  const [forecast, setForecast] = useState<Forecast | null>(null);
+  const [forecastDays, setForecastDays] = useState(90);
+  const [goals, setGoals] = useState<GoalsOverview | null>(null);
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [trendInterval, setTrendInterval] = useState<TrendInterval>("month");
+  const [merchants, setMerchants] = useState<MerchantSpend[]>([]);
+  const [merchantSort, setMerchantSort] = useState<MerchantSort>("spend");
 
-  async function refreshTransactions() {
-    const res = await fetch("http://localhost:3001/transactions");
-    const data = await res.json();
-    setTx(data);
-  }
+  const query = filterQuery(filters);
+  // Budgets are monthly: show the selected month, or this month otherwise.
+  const budgetMonth = filters.period === "month" && filters.month ? filters.month : new Date().toISOString().slice(0, 7);
 
   async function refreshTotals() {
     setLoadingTotals(true);
     try {
-      const res = await fetch("http://localhost:3001/insights/totals");
+      const res = await apiFetch(`/insights/totals${query}`);
       const data = await res.json();
       setTotals(data);
     } finally {
@@ -60,19 +67,130 @@ export default function App() {
   }
 
   async function resetAll() {
-    await fetch("http://localhost:3001/reset", { method: "POST" });
-    setIncomeOverride(null);
+    await apiFetch("/reset", { method: "POST" });
     await refreshAll();
   }
 
+  async function refreshFacets() {
+    const res = await apiFetch("/transactions/facets");
+    if (res.ok) setFacets(await res.json());
+  }
+
+  async function refreshBudgets() {
+    const params = new URLSearchParams({ month: budgetMonth });
+    if (filters.account) params.set("account", filters.account);
+    const res = await apiFetch(`/insights/budgets?${params}`);
+    if (res.ok) setBudgets(await res.json());
+  }
+
+  async function refreshRecurring() {
+    const params = new URLSearchParams();
+    if (filters.account) params.set("account", filters.account);
+    const res = await apiFetch(`/insights/recurring?${params}`);
+    if (res.ok) setRecurring(await res.json());
+  }
+
+  async function refreshTrends(interval = trendInterval) {
+    const params = new URLSearchParams(query);
+    params.set("interval", interval);
+    const res = await apiFetch(`/insights/trends?${params}`);
+    if (res.ok) setTrends(await res.json());
+  }
+
+  function changeTrendInterval(interval: TrendInterval) {
+    setTrendInterval(interval);
+    refreshTrends(interval);
+  }
+
+  async function refreshMerchants(sort = merchantSort) {
+    const params = new URLSearchParams(query);
+    params.set("sort", sort);
+    const res = await apiFetch(`/insights/merchants?${params}`);
+    if (res.ok) setMerchants(await res.json());
+  }
+
+  function changeMerchantSort(sort: MerchantSort) {
+    setMerchantSort(sort);
+    refreshMerchants(sort);
+  }
+
+  // Like recurring charges, the forecast only honors the account filter.
+  async function refreshForecast(days = forecastDays) {
+    const params = new URLSearchParams({ days: String(days) });
+    if (filters.account) params.set("account", filters.account);
+    const res = await apiFetch(`/insights/forecast?${params}`);
+    if (res.ok) setForecast(await res.json());
+  }
+
+  function changeForecastDays(days: number) {
+    setForecastDays(days);
+    refreshForecast(days);
+  }
+
+  async function refreshAdvice() {
+    const res = await apiFetch(`/insights/advice${query}`);
+    if (res.ok) setAdvice(await res.json());
+  }
+
+  async function refreshGoals() {
+    const res = await apiFetch("/goals");
+    if (res.ok) setGoals(await res.json());
+  }
+
+  async function refreshSettings() {
+    const res = await apiFetch("/settings");
+    if (!res.ok) return;
+    const data: Settings = await res.json();
+    setMoneyFormat(data.currency, data.locale);
+    setSettings(data);
+  }
+
+  async function refreshAccounts() {
+    const res = await apiFetch("/accounts");
+    if (res.ok) setAccounts(await res.json());
+  }
+
   async function refreshAll() {
-    await Promise.all([refreshTransactions(), refreshTotals()]);
+    setRevision((r) => r + 1);
+    await Promise.all([
+      refreshTotals(),
+      refreshFacets(),
+      refreshBudgets(),
+      refreshRecurring(),
+      refreshAccounts(),
+      refreshTrends(),
+      refreshMerchants(),
+      refreshAdvice(),
+      refreshForecast(),
+      refreshGoals(),
+      refreshSettings(),
+    ]);
+  }
+
+  function signOut() {
+    saveSession(null);
+    setSession(null);
+    setTotals(null);
+    setBudgets([]);
+    setRecurring([]);
+    setAccounts([]);
+    setTrends([]);
+    setMerchants([]);
+    setAdvice([]);
+    setForecast(null);
+    setGoals(null);
+    setSettings(null);
+    setFilters(ALL_TIME);
   }
 
   useEffect(() => {
-    refreshAll();
+    setSignedOutHandler(signOut);
   }, []);
 
+  useEffect(() => {
+    if (session) refreshAll();
+  }, [session, query]);
+
   const topCategories =
     totals?.byCategory
       ? Object.entries(totals.byCategory)
@@ -80,26 +198,15 @@ export default function App() {
         .slice(0, 8)
       : [];
 
-  const displayIncome = totals ? incomeOverride ?? totals.income : 0;
+  const displayIncome = totals ? totals.income : 0;
   const displayExpenses = totals ? totals.expenses : 0;
-  const displayNet = totals ? displayIncome - displayExpenses : 0;
-
-  const theme = {
-    bg: isDark ? "#1e293b" : "#f8fafc",
-    card: isDark ? "#334155" : "white",
-    text: isDark ? "#f1f5f9" : "#1e293b",
-    textMuted: isDark ? "#94a3b8" : "#64748b",
-    headerText: isDark ? "#f1f5f9" : "#1e293b",
-    headerSubtext: isDark ? "#cbd5e1" : "#64748b",
-    buttonBg: isDark ? "#475569" : "#e2e8f0",
-    buttonBgHover: isDark ? "#64748b" : "#cbd5e1",
-    buttonText: isDark ? "#f1f5f9" : "#1e293b",
-    border: isDark ? "#475569" : "#e2e8f0",
-    inputBg: isDark ? "#475569" : "#ffffff",
-    tableBorder: isDark ? "#475569" : "#f1f5f9",
-    categoryBg: isDark ? "#475569" : "#f1f5f9",
-    barBg: isDark ? "#475569" : "#f1f5f9",
-  };
+  const displayNet = totals ? totals.net : 0;
+
+  const theme = makeTheme(isDark);
+
+  if (!session) {
+    return <Login onLoggedIn={setSession} />;
+  }
 
   return (
     <div style={{ minHeight: "100vh", background: theme.bg, fontFamily: "system-ui" }}>
@@ -115,6 +222,7 @@ export default function App() {
             </p>
           </div>
           <div style={{ display: "flex", gap: 12 }}>
+            <PeriodSelector value={filters} facets={facets} theme={theme} onChange={setFilters} />
             <button
               onClick={() => setIsDark(!isDark)}
               style={{
@@ -151,6 +259,25 @@ export default function App() {
             >
               Clear All Data
             </button>
+            <button
+              onClick={signOut}
+              style={{
+                padding: "12px 24px",
+                borderRadius: 12,
+                border: "none",
+                background: theme.buttonBg,
+                color: theme.buttonText,
+                cursor: "pointer",
+                fontSize: 15,
+                fontWeight: 600,
+                transition: "all 0.2s",
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.background = theme.buttonBgHover}
+              onMouseLeave={(e) => e.currentTarget.style.background = theme.buttonBg}
+              title={session.email}
+            >
+              Sign Out
+            </button>
           </div>
         </div>
 
@@ -163,11 +290,97 @@ export default function App() {
           boxShadow: "0 4px 6px rgba(0,0,0,0.1)"
         }}>
           <h3 style={{ margin: "0 0 16px 0", fontSize: 18, fontWeight: 600, color: theme.text }}>
-            Import CSV
+            Import Transactions
+          </h3>
+          <CsvImport accounts={accounts.map((a) => a.name)} onImported={refreshAll} />
+        </div>
+
+        {/* Accounts Section */}
+        <div style={{
+          background: theme.card,
+          borderRadius: 16,
+          padding: 24,
+          marginTop: 32,
+          boxShadow: "0 4px 6px rgba(0,0,0,0.1)"
+        }}>
+          <h3 style={{ margin: "0 0 16px 0", fontSize: 18, fontWeight: 600, color: theme.text }}>
+            Accounts
           </h3>
-          <CsvImport onImported={refreshAll} />
+          <AccountsPanel accounts={accounts} onChanged={refreshAll} />
         </div>
 
+        {/* Categorization Rules Section */}
+        <div style={{
+          background: theme.card,
+          borderRadius: 16,
+          padding: 24,
+          marginTop: 32,
+          boxShadow: "0 4px 6px rgba(0,0,0,0.1)"
+        }}>
+          <h3 style={{ margin: "0 0 16px 0", fontSize: 18, fontWeight: 600, color: theme.text }}>
+            Categorization Rules
+          </h3>
+          <RulesPanel onApplied={refreshAll} />
+        </div>
+
+        {/* Merchant Directory Section */}
+        <div style={{
+          background: theme.card,
+          borderRadius: 16,
+          padding: 24,
+          marginTop: 32,
+          boxShadow: "0 4px 6px rgba(0,0,0,0.1)"
+        }}>
+          <h3 style={{ margin: "0 0 16px 0", fontSize: 18, fontWeight: 600, color: theme.text }}>
+            Merchants
+          </h3>
+          <MerchantsPanel categories={facets.categories} onChanged={refreshAll} />
+        </div>
+
+        {/* Budgets Section */}
+        <div style={{
+          background: theme.card,
+          borderRadius: 16,
+          padding: 24,
+          marginTop: 32,
+          boxShadow: "0 4px 6px rgba(0,0,0,0.1)"
+        }}>
+          <h3 style={{ margin: "0 0 16px 0", fontSize: 18, fontWeight: 600, color: theme.text }}>
+            Budgets
+          </h3>
+          <BudgetsPanel categories={facets.categories} onChanged={refreshAll} />
+        </div>
+
+        {/* Goals Section */}
+        <div style={{
+          background: theme.card,
+          borderRadius: 16,
+          padding: 24,
+          marginTop: 32,
+          boxShadow: "0 4px 6px rgba(0,0,0,0.1)"
+        }}>
+          <h3 style={{ margin: "0 0 16px 0", fontSize: 18, fontWeight: 600, color: theme.text }}>
+            Savings Goals
+          </h3>
+          <GoalsPanel overview={goals} accounts={accounts} categories={facets.categories} theme={theme} onChanged={refreshGoals} />
+        </div>
+
+        {/* Settings Section */}
+        {settings && (
+          <div style={{
+            background: theme.card,
+            borderRadius: 16,
+            padding: 24,
+            marginTop: 32,
+            boxShadow: "0 4px 6px rgba(0,0,0,0.1)"
+          }}>
+            <h3 style={{ margin: "0 0 16px 0", fontSize: 18, fontWeight: 600, color: theme.text }}>
+              Settings
+            </h3>
+            <SettingsPanel settings={settings} onChanged={refreshAll} />
+          </div>
+        )}
+
         {/* Financial Overview Cards */}
         <div style={{ 
           display: "grid", 
@@ -188,46 +401,10 @@ export default function App() {
             <div style={{ fontSize: 32, fontWeight: 700, color: "#10b981", marginBottom: 16 }}>
               {totals ? money(displayIncome) : loadingTotals ? "Loading..." : "—"}
             </div>
-            <div style={{ display: "flex", gap: 8 }}>
-              <input
-                placeholder="Override income..."
-                inputMode="decimal"
-                style={{
-                  flex: 1,
-                  padding: "10px 12px",
-                  borderRadius: 8,
-                  border: `1px solid ${theme.border}`,
-                  fontSize: 14,
-                  background: theme.inputBg,
-                  color: theme.text,
-                }}
-                value={incomeOverride === null ? "" : String(incomeOverride)}
-                onChange={(e) => {
-                  const v = e.target.value;
-                  if (!v.trim()) {
-                    setIncomeOverride(null);
-                    return;
-                  }
-                  const n = parseMoneyInput(v);
-                  if (!Number.isNaN(n)) setIncomeOverride(n);
-                }}
-              />
-              <button
-                style={{
-                  padding: "10px 16px",
-                  borderRadius: 8,
-                  border: `1px solid ${theme.border}`,
-                  background: incomeOverride === null ? (isDark ? "#64748b" : "#f1f5f9") : "#667eea",
-                  color: incomeOverride === null ? (isDark ? "#cbd5e1" : "#94a3b8") : "white",
-                  cursor: incomeOverride === null ? "not-allowed" : "pointer",
-                  fontSize: 14,
-                  fontWeight: 600,
-                }}
-                onClick={() => setIncomeOverride(null)}
-                disabled={incomeOverride === null}
-              >
-                Reset
-              </button>
+            <div style={{ fontSize: 13, color: theme.textMuted }}>
+              {totals?.incomeSource === "expected"
+                ? `Expected income from Settings · ${money(totals.actualIncome)} recorded`
+                : "Recorded income · set an expected income in Settings"}
             </div>
           </div>
 
@@ -266,6 +443,128 @@ export default function App() {
           </div>
         </div>
 
+        {/* Advice */}
+        <div style={{
+          background: theme.card,
+          borderRadius: 16,
+          padding: 24,
+          marginTop: 32,
+          boxShadow: "0 4px 6px rgba(0,0,0,0.1)"
+        }}>
+          <h2 style={{ margin: "0 0 20px 0", fontSize: 20, fontWeight: 700, color: theme.text }}>
+            Advice
+          </h2>
+          <AdvicePanel advice={advice} theme={theme} onChanged={refreshAdvice} />
+        </div>
+
+        {/* Trends */}
+        <div style={{
+          background: theme.card,
+          borderRadius: 16,
+          padding: 24,
+          marginTop: 32,
+          boxShadow: "0 4px 6px rgba(0,0,0,0.1)"
+        }}>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 20 }}>
+            <h2 style={{ margin: 0, fontSize: 20, fontWeight: 700, color: theme.text }}>
+              Trends
+            </h2>
+            <div style={{ display: "flex", gap: 4 }}>
+              {(["week", "month", "year"] as const).map((interval) => (
+                <button
+                  key={interval}
+                  onClick={() => changeTrendInterval(interval)}
+                  style={{
+                    padding: "6px 12px",
+                    borderRadius: 6,
+                    border: "none",
+                    cursor: "pointer",
+                    fontSize: 13,
+                    fontWeight: 600,
+                    background: interval === trendInterval ? "#667eea" : theme.buttonBg,
+                    color: interval === trendInterval ? "white" : theme.buttonText,
+                  }}
+                >
+                  {interval === "week" ? "Weekly" : interval === "month" ? "Monthly" : "Yearly"}
+                </button>
+              ))}
+            </div>
+          </div>
+          <TrendChart buckets={trends} interval={trendInterval} theme={theme} />
+        </div>
+
+        {/* Top Merchants */}
+        <div style={{
+          background: theme.card,
+          borderRadius: 16,
+          padding: 24,
+          marginTop: 32,
+          boxShadow: "0 4px 6px rgba(0,0,0,0.1)"
+        }}>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 20 }}>
+            <h2 style={{ margin: 0, fontSize: 20, fontWeight: 700, color: theme.text }}>
+              Top Merchants
+            </h2>
+            <div style={{ display: "flex", gap: 4 }}>
+              {(["spend", "visits"] as const).map((sort) => (
+                <button
+                  key={sort}
+                  onClick={() => changeMerchantSort(sort)}
+                  style={{
+                    padding: "6px 12px",
+                    borderRadius: 6,
+                    border: "none",
+                    cursor: "pointer",
+                    fontSize: 13,
+                    fontWeight: 600,
+                    background: sort === merchantSort ? "#667eea" : theme.buttonBg,
+                    color: sort === merchantSort ? "white" : theme.buttonText,
+                  }}
+                >
+                  {sort === "spend" ? "By spend" : "By visits"}
+                </button>
+              ))}
+            </div>
+          </div>
+          <TopMerchants merchants={merchants} sort={merchantSort} theme={theme} />
+        </div>
+
+        {/* Forecast */}
+        <div style={{
+          background: theme.card,
+          borderRadius: 16,
+          padding: 24,
+          marginTop: 32,
+          boxShadow: "0 4px 6px rgba(0,0,0,0.1)"
+        }}>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 20 }}>
+            <h2 style={{ margin: 0, fontSize: 20, fontWeight: 700, color: theme.text }}>
+              Forecast
+            </h2>
+            <div style={{ display: "flex", gap: 4 }}>
+              {[30, 60, 90].map((days) => (
+                <button
+                  key={days}
+                  onClick={() => changeForecastDays(days)}
+                  style={{
+                    padding: "6px 12px",
+                    borderRadius: 6,
+                    border: "none",
+                    cursor: "pointer",
+                    fontSize: 13,
+                    fontWeight: 600,
+                    background: days === forecastDays ? "#667eea" : theme.buttonBg,
+                    color: days === forecastDays ? "white" : theme.buttonText,
+                  }}
+                >
+                  {days} days
+                </button>
+              ))}
+            </div>
+          </div>
+          <ForecastChart forecast={forecast} theme={theme} />
+        </div>
+
         {/* Two Column Layout */}
         <div style={{ 
           display: "grid", 
@@ -316,6 +615,7 @@ export default function App() {
                 ))}
               </div>
             )}
+            <BudgetProgress statuses={budgets} month={budgetMonth} theme={theme} />
           </div>
 
           {/* Transactions List */}
@@ -325,82 +625,30 @@ export default function App() {
             padding: 24,
             boxShadow: "0 4px 6px rgba(0,0,0,0.1)"
           }}>
-            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 20 }}>
-              <h2 style={{ margin: 0, fontSize: 20, fontWeight: 700, color: theme.text }}>Transactions</h2>
-              <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
-                <span style={{ fontSize: 13, color: theme.textMuted }}>
-                  {filteredTx.length} of {tx.length}
-                </span>
-                <select
-                  value={categoryFilter}
-                  onChange={(e) => setCategoryFilter(e.target.value)}
-                  style={{
-                    padding: "8px 12px",
-                    borderRadius: 8,
-                    border: `1px solid ${theme.border}`,
-                    fontSize: 14,
-                    cursor: "pointer",
-                    background: theme.inputBg,
-                    color: theme.text,
-                  }}
-                >
-                  <option value="All">All Categories</option>
-                  {categories.map((c) => (
-                    <option key={c} value={c}>{c}</option>
-                  ))}
-                </select>
-              </div>
-            </div>
-
-            <div style={{ maxHeight: 500, overflowY: "auto" }}>
-              {filteredTx.length === 0 ? (
-                <div style={{ color: theme.textMuted, fontSize: 14, textAlign: "center", padding: 40 }}>
-                  No transactions found
-                </div>
-              ) : (
-                <table style={{ width: "100%", borderCollapse: "collapse" }}>
-                  <thead style={{ position: "sticky", top: 0, background: theme.card }}>
-                    <tr style={{ borderBottom: `2px solid ${theme.border}` }}>
-                      <th style={{ textAlign: "left", padding: "12px 8px", fontSize: 12, fontWeight: 600, color: theme.textMuted }}>DATE</th>
-                      <th style={{ textAlign: "left", padding: "12px 8px", fontSize: 12, fontWeight: 600, color: theme.textMuted }}>NAME</th>
-                      <th style={{ textAlign: "left", padding: "12px 8px", fontSize: 12, fontWeight: 600, color: theme.textMuted }}>CATEGORY</th>
-                      <th style={{ textAlign: "right", padding: "12px 8px", fontSize: 12, fontWeight: 600, color: theme.textMuted }}>AMOUNT</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {filteredTx.map((t) => (
-                      <tr key={t.id} style={{ borderBottom: `1px solid ${theme.tableBorder}` }}>
-                        <td style={{ padding: "12px 8px", fontSize: 14, color: theme.textMuted }}>{t.date}</td>
-                        <td style={{ padding: "12px 8px", fontSize: 14, fontWeight: 500, color: theme.text }}>{t.name}</td>
-                        <td style={{ padding: "12px 8px", fontSize: 14 }}>
-                          <span style={{
-                            padding: "4px 10px",
-                            borderRadius: 6,
-                            background: theme.categoryBg,
-                            fontSize: 12,
-                            fontWeight: 600,
-                            color: theme.text,
-                          }}>
-                            {t.category?.trim() ? t.category : "Uncategorized"}
-                          </span>
-                        </td>
-                        <td style={{ 
-                          padding: "12px 8px", 
-                          fontSize: 14, 
-                          fontWeight: 600,
-                          textAlign: "right",
-                          color: t.amount < 0 ? "#ef4444" : "#10b981"
-                        }}>
-                          {money(t.amount)}
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              )}
-            </div>
+            <TransactionsTable
+              query={query}
+              categories={facets.categories}
+              tags={facets.tags}
+              revision={revision}
+              theme={theme}
+              onChanged={refreshAll}
+            />
           </div>
         </div>
+
+        {/* Subscriptions */}
+        <div style={{
+          background: theme.card,
+          borderRadius: 16,
+          padding: 24,
+          marginTop: 32,
+          boxShadow: "0 4px 6px rgba(0,0,0,0.1)"
+        }}>
+          <h2 style={{ margin: "0 0 20px 0", fontSize: 20, fontWeight: 700, color: theme.text }}>
+            Subscriptions
+          </h2>
+          <SubscriptionsPanel series={recurring} theme={theme} />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,62 @@
+import { money } from "./format";
+import { monthLabel } from "./filters";
+import type { Theme } from "./theme";
+
+export type BudgetStatus = {
+  budgetId: string;
+  category: string;
+  month: string;
+  budgeted: number;
+  carriedOver: number;
+  available: number;
+  actual: number;
+  remaining: number;
+  projected: number;
+  percentUsed: number;
+};
+
+/** Budgeted vs. actual bars; red when over, amber when on pace to go over. */
+export function BudgetProgress({ statuses, month, theme }: { statuses: BudgetStatus[]; month: string; theme: Theme }) {
+  if (statuses.length === 0) return null;
+
+  return (
+    <div style={{ marginTop: 24 }}>
+      <div style={{ fontSize: 13, fontWeight: 600, color: theme.textMuted, marginBottom: 12 }}>
+        BUDGETS · {monthLabel(month).toUpperCase()}
+      </div>
+      <div style={{ display: "flex", flexDirection: "column", gap: 12 }}>
+        {statuses.map((b) => {
+          const over = b.actual > b.available;
+          const onPaceOver = !over && b.projected > b.available;
+          const color = over ? "#ef4444" : onPaceOver ? "#f59e0b" : "#10b981";
+
+          return (
+            <div key={b.budgetId}>
+              <div style={{ display: "flex", justifyContent: "space-between", marginBottom: 6 }}>
+                <span style={{ fontSize: 14, fontWeight: 600, color: theme.text }}>{b.category}</span>
+                <span style={{ fontSize: 13, fontWeight: 600, color }}>
+                  {money(b.actual)} / {money(b.available)}
+                </span>
+              </div>
+              <div style={{ height: 6, background: theme.barBg, borderRadius: 3, overflow: "hidden" }}>
+                <div
+                  style={{
+                    height: "100%",
+                    background: color,
+                    width: `${Math.min(b.percentUsed, 1) * 100}%`,
+                    borderRadius: 3,
+                  }}
+                />
+              </div>
+              <div style={{ fontSize: 12, color: theme.textMuted, marginTop: 4 }}>
+                {over ? `${money(-b.remaining)} over` : `${money(b.remaining)} left`}
+                {b.carriedOver !== 0 ? ` · ${money(b.carriedOver)} rolled over` : ""}
+                {onPaceOver ? ` · on pace for ${money(b.projected)}` : ""}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { apiFetch, errorMessage } from "./api";
+import { money, parseMoneyInput } from "./format";
+import { monthLabel } from "./filters";
+
+type Budget = {
+  id: string;
+  category: string;
+  month: string | null;
+  amount: number;
+  rollover: boolean;
+};
+
+export function BudgetsPanel({ categories, onChanged }: { categories: string[]; onChanged: () => void }) {
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [msg, setMsg] = useState("");
+  const [category, setCategory] = useState("");
+  const [amount, setAmount] = useState("");
+  const [month, setMonth] = useState(""); // "" = every month
+  const [rollover, setRollover] = useState(false);
+
+  function refreshBudgets() {
+    return apiFetch("/budgets")
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setBudgets);
+  }
+
+  useEffect(() => {
+    refreshBudgets();
+  }, []);
+
+  async function send(path: string, method: string, body?: unknown) {
+    const res = await apiFetch(path, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setMsg(`Error: ${errorMessage(data, "Request failed")}`);
+      return null;
+    }
+    setMsg("");
+    await refreshBudgets();
+    onChanged();
+    return data;
+  }
+
+  async function addBudget() {
+    const created = await send("/budgets", "POST", {
+      category: category.trim(),
+      amount: parseMoneyInput(amount),
+      month: month || null,
+      rollover,
+    });
+    if (!created) return;
+    setCategory("");
+    setAmount("");
+  }
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <input list="budget-categories" placeholder="Category" value={category} onChange={(e) => setCategory(e.target.value)} />
+        <datalist id="budget-categories">
+          {categories.map((c) => (
+            <option key={c} value={c} />
+          ))}
+        </datalist>
+        <input placeholder="Amount" inputMode="decimal" value={amount} onChange={(e) => setAmount(e.target.value)} style={{ width: 90 }} />
+        <input type="month" title="Leave empty for every month" value={month} onChange={(e) => setMonth(e.target.value)} />
+        <label>
+          <input type="checkbox" checked={rollover} onChange={(e) => setRollover(e.target.checked)} /> Roll over
+        </label>
+        <button onClick={addBudget} disabled={!category.trim() || !amount.trim()}>
+          Add budget
+        </button>
+      </div>
+      {msg && <div style={{ marginTop: 8, opacity: 0.85, whiteSpace: "pre-wrap" }}>{msg}</div>}
+      <table style={{ width: "100%", marginTop: 12, borderCollapse: "collapse" }}>
+        <tbody>
+          {budgets.map((b) => (
+            <tr key={b.id}>
+              <td style={{ padding: "4px 6px" }}>{b.category}</td>
+              <td style={{ padding: "4px 6px" }}>{b.month ? monthLabel(b.month) : "Every month"}</td>
+              <td style={{ padding: "4px 6px", textAlign: "right" }}>{money(b.amount)}</td>
+              <td style={{ padding: "4px 6px" }}>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={b.rollover}
+                    onChange={(e) => send(`/budgets/${b.id}`, "PATCH", { rollover: e.target.checked })}
+                  />{" "}
+                  Roll over
+                </label>
+              </td>
+              <td style={{ padding: "4px 6px", textAlign: "right" }}>
+                <button onClick={() => send(`/budgets/${b.id}`, "DELETE")}>Delete</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
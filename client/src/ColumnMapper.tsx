@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { apiFetch, errorMessage } from "./api";
+
+export type ImportProfile = { id: string; name: string; userId: string | null };
+
+type Field = "date" | "name" | "amount" | "debit" | "credit" | "category";
+
+const FIELDS: Array<{ field: Field; label: string; required?: boolean }> = [
+  { field: "date", label: "Date", required: true },
+  { field: "name", label: "Description", required: true },
+  { field: "amount", label: "Amount" },
+  { field: "debit", label: "Debit" },
+  { field: "credit", label: "Credit" },
+  { field: "category", label: "Category" },
+];
+
+/** Maps an unrecognized file's headers onto transaction fields and saves the result as a profile. */
+export function ColumnMapper({
+  headers,
+  delimiter,
+  onSaved,
+  onCancel,
+}: {
+  headers: string[];
+  delimiter: string;
+  onSaved: (profile: ImportProfile) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState("");
+  const [columns, setColumns] = useState<Partial<Record<Field, string>>>({});
+  const [dateFormat, setDateFormat] = useState("MM/DD/YYYY");
+  const [sign, setSign] = useState("auto");
+  const [msg, setMsg] = useState("");
+
+  async function save() {
+    const mapped = Object.fromEntries(Object.entries(columns).filter(([, h]) => h));
+    const res = await apiFetch("/import-profiles", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, delimiter, dateFormat, sign, columns: mapped, signature: headers }),
+    });
+
+    const data = await res.json();
+    if (!res.ok) {
+      setMsg(`Error: ${errorMessage(data, "Could not save profile")}`);
+      return;
+    }
+    onSaved(data);
+  }
+
+  return (
+    <div style={{ marginTop: 8, padding: 8, border: "1px dashed #999", borderRadius: 8, fontSize: 13 }}>
+      <strong>Map columns</strong>
+      <div style={{ display: "grid", gridTemplateColumns: "100px 1fr", gap: 4, marginTop: 8 }}>
+        {FIELDS.map(({ field, label, required }) => (
+          <label key={field} style={{ display: "contents" }}>
+            <span>
+              {label}
+              {required ? " *" : ""}
+            </span>
+            <select
+              value={columns[field] ?? ""}
+              onChange={(e) => setColumns({ ...columns, [field]: e.target.value })}
+            >
+              <option value="">—</option>
+              {headers.map((h) => (
+                <option key={h} value={h}>
+                  {h}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+        <span>Date format</span>
+        <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value)}>
+          <option>YYYY-MM-DD</option>
+          <option>MM/DD/YYYY</option>
+          <option>DD/MM/YYYY</option>
+          <option>MM/DD/YY</option>
+        </select>
+        <span>Amounts</span>
+        <select value={sign} onChange={(e) => setSign(e.target.value)}>
+          <option value="auto">Detect per file</option>
+          <option value="signed">Already signed (expenses negative)</option>
+          <option value="inverted">Charges positive</option>
+        </select>
+        <span>Profile name</span>
+        <input placeholder="e.g. My Credit Union" value={name} onChange={(e) => setName(e.target.value)} />
+      </div>
+      {msg && <div style={{ marginTop: 8, whiteSpace: "pre-wrap" }}>{msg}</div>}
+      <div style={{ marginTop: 8 }}>
+        <button onClick={save} disabled={!name.trim() || !columns.date || !columns.name}>
+          Save profile
+        </button>
+        <button style={{ marginLeft: 8 }} onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,44 +1,347 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { apiFetch, errorMessage } from "./api";
+import { ColumnMapper, type ImportProfile } from "./ColumnMapper";
 
-export function CsvImport({ onImported }: { onImported: () => void }) {
+type PreviewRow = {
+  row: number;
+  status: "new" | "duplicate";
+  transaction: {
+    date: string;
+    name: string;
+    amount: number;
+    category: string;
+    categorySource: string;
+    categoryConfidence: number | null;
+  };
+};
+
+type RejectedRow = { row: number; field: string; value: string; reason: string };
+
+type DateResolution = {
+  order: "MDY" | "DMY";
+  source: "request" | "file" | "profile" | "default";
+  ambiguous: boolean;
+  conflicting: boolean;
+};
+
+// CSV previews name the profile, sign rule and date order; statement previews the format.
+type Preview = {
+  profile?: { name: string };
+  signRule?: string;
+  dates?: DateResolution;
+  rejected?: RejectedRow[];
+  format?: string;
+  new: number;
+  duplicates: number;
+  rows: PreviewRow[];
+};
+
+const ORDER_LABELS = { MDY: "MM/DD", DMY: "DD/MM" };
+
+// Only worth mentioning when the file itself didn't settle the order.
+function dateWarning(dates: DateResolution | undefined) {
+  if (!dates) return "";
+  const order = ORDER_LABELS[dates.order];
+  if (dates.conflicting) return `Some dates only fit MM/DD and others only DD/MM; reading them as ${order}.`;
+  if (dates.ambiguous && dates.source !== "request") {
+    const from = dates.source === "profile" ? "the profile's format" : "the default";
+    return `Dates like 03/04 could be MM/DD or DD/MM; reading them as ${order} (${from}). Pick a date order if that's wrong.`;
+  }
+  return "";
+}
+
+function RejectedRows({ rows }: { rows: RejectedRow[] }) {
+  return (
+    <div style={{ marginTop: 8, fontSize: 12, color: "#ef4444" }}>
+      Skipped {rows.length} {rows.length === 1 ? "row" : "rows"} that couldn't be read:
+      {rows.map((r) => (
+        <div key={r.row}>
+          #{r.row} ({r.field}): {r.reason}
+          {r.value ? ` ("${r.value}")` : ""}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const STATEMENT_EXTENSIONS = /\.(ofx|qfx|qif)$/i;
+
+function formatLabel(data: { profile?: { name: string }; format?: string }) {
+  return data.profile?.name ?? `${(data.format ?? "").toUpperCase()} statement`;
+}
+
+const SIGN_RULE_LABELS: Record<string, string> = {
+  signed: "amounts already signed",
+  inverted: "charges listed as positive",
+  "debit-credit": "separate debit/credit columns",
+};
+
+type ImportBatch = {
+  id: string;
+  createdAt: string;
+  fileName: string;
+  account: string;
+  added: number;
+  duplicates: number;
+};
+
+export function CsvImport({ accounts, onImported }: { accounts: string[]; onImported: () => void }) {
   const [file, setFile] = useState<File | null>(null);
+  const [account, setAccount] = useState("");
+  const [accountType, setAccountType] = useState(""); // "" = unknown
+  const [sign, setSign] = useState(""); // "" = let the profile decide
+  const [dateOrder, setDateOrder] = useState(""); // "" = decide from the file
+  const [rejected, setRejected] = useState<RejectedRow[]>([]);
   const [msg, setMsg] = useState<string>("");
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [profileId, setProfileId] = useState(""); // "" = auto-detect
+  const [mapping, setMapping] = useState<{ headers: string[]; delimiter: string } | null>(null);
 
-  async function upload() {
-    if (!file) return;
+  function refreshBatches() {
+    return apiFetch("/transactions/imports")
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setBatches);
+  }
 
-    setMsg("Uploading...");
+  function refreshProfiles() {
+    return apiFetch("/import-profiles")
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setProfiles);
+  }
+
+  useEffect(() => {
+    refreshBatches();
+    refreshProfiles();
+  }, []);
+
+  async function send(dryRun: boolean) {
+    if (!file) return null;
+
+    // OFX/QFX/QIF statements carry signed amounts and their own format, so
+    // only the account and (for QIF) the date order apply to them.
+    const statement = STATEMENT_EXTENSIONS.test(file.name);
     const form = new FormData();
     form.append("file", file);
+    form.append("account", account);
+    if (dateOrder) form.append("dateOrder", dateOrder);
+    if (!statement) {
+      if (accountType) form.append("accountType", accountType);
+      if (sign) form.append("sign", sign);
+      if (profileId) form.append("profileId", profileId);
+    }
 
-    const res = await fetch("http://localhost:3001/transactions/import/csv", {
+    const route = statement ? "statement" : "csv";
+    const res = await apiFetch(`/transactions/import/${route}${dryRun ? "?dryRun=true" : ""}`, {
       method: "POST",
       body: form,
     });
 
     const data = await res.json();
+    if (res.status === 422 && data.headers) {
+      setMapping({ headers: data.headers, delimiter: data.delimiter });
+      setMsg("Unrecognized file format. Map its columns below to save a new profile.");
+      return null;
+    }
     if (!res.ok) {
-      setMsg(`Error: ${data.error || "Upload failed"}`);
-      return;
+      setMsg(`Error: ${errorMessage(data, "Upload failed")}`);
+      return null;
     }
+    return data;
+  }
+
+  async function showPreview() {
+    setMsg("Checking for duplicates...");
+    const data = await send(true);
+    if (!data) return;
+    setPreview(data);
+    setMsg("");
+  }
+
+  async function upload() {
+    setMsg("Uploading...");
+    const data = await send(false);
+    if (!data) return;
 
-    setMsg(`Imported ${data.imported} transactions ✅`);
+    setPreview(null);
+    setRejected(data.rejected ?? []);
+    setMsg(
+      `Imported ${data.imported} transactions from ${formatLabel(data)}${data.account ? ` into ${data.account}` : ""} ✅` +
+        (data.duplicates ? ` (skipped ${data.duplicates} duplicates)` : "") +
+        (data.transfers ? `, linked ${data.transfers} transfers` : "")
+    );
     onImported();
+    refreshBatches();
+  }
+
+  async function profileSaved(profile: ImportProfile) {
+    setMapping(null);
+    setProfileId(profile.id);
+    setMsg(`Saved profile "${profile.name}". Preview or upload again.`);
+    await refreshProfiles();
+  }
+
+  async function undo(batch: ImportBatch) {
+    const res = await apiFetch(`/transactions/imports/${batch.id}`, { method: "DELETE" });
+    const data = await res.json();
+    if (!res.ok) {
+      setMsg(`Error: ${errorMessage(data, "Undo failed")}`);
+      return;
+    }
+    setMsg(`Removed ${data.removed} transactions from ${batch.fileName}`);
+    onImported();
+    refreshBatches();
   }
 
   return (
     <div style={{ border: "1px solid #ddd", borderRadius: 10, padding: 12 }}>
-      <strong>Import CSV</strong>
+      <strong>Import a CSV, OFX/QFX or QIF file</strong>
       <div style={{ marginTop: 8 }}>
-        <input type="file" accept=".csv" onChange={(e) => setFile(e.target.files?.[0] || null)} />
+        <input
+          type="file"
+          accept=".csv,.ofx,.qfx,.qif"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] || null);
+            setPreview(null);
+            setRejected([]);
+            setMapping(null);
+          }}
+        />
+        <input
+          list="import-accounts"
+          placeholder="Account (optional)"
+          title="Pick an account, or type a new name to create one"
+          value={account}
+          onChange={(e) => {
+            setAccount(e.target.value);
+            setPreview(null);
+          }}
+          style={{ marginLeft: 8 }}
+        />
+        <datalist id="import-accounts">
+          {accounts.map((a) => (
+            <option key={a} value={a} />
+          ))}
+        </datalist>
+        <select
+          value={accountType}
+          onChange={(e) => {
+            setAccountType(e.target.value);
+            setPreview(null);
+          }}
+          style={{ marginLeft: 8 }}
+        >
+          <option value="">Account type: unknown</option>
+          <option value="credit-card">Credit card</option>
+          <option value="deposit">Checking / savings</option>
+        </select>
+        <select
+          value={sign}
+          onChange={(e) => {
+            setSign(e.target.value);
+            setPreview(null);
+          }}
+          style={{ marginLeft: 8 }}
+        >
+          <option value="">Amounts: auto</option>
+          <option value="signed">Already signed (expenses negative)</option>
+          <option value="inverted">Charges positive</option>
+        </select>
+        <select
+          value={dateOrder}
+          onChange={(e) => {
+            setDateOrder(e.target.value);
+            setPreview(null);
+          }}
+          style={{ marginLeft: 8 }}
+        >
+          <option value="">Dates: auto</option>
+          <option value="MDY">MM/DD (US)</option>
+          <option value="DMY">DD/MM</option>
+        </select>
+        <select
+          value={profileId}
+          onChange={(e) => {
+            setProfileId(e.target.value);
+            setPreview(null);
+          }}
+          style={{ marginLeft: 8 }}
+        >
+          <option value="">Auto-detect format</option>
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <button style={{ marginLeft: 8 }} onClick={showPreview} disabled={!file}>
+          Preview
+        </button>
         <button style={{ marginLeft: 8 }} onClick={upload} disabled={!file}>
           Upload
         </button>
       </div>
       {msg && <div style={{ marginTop: 8, opacity: 0.85 }}>{msg}</div>}
+      {!preview && rejected.length > 0 && <RejectedRows rows={rejected} />}
+      {mapping && (
+        <ColumnMapper
+          headers={mapping.headers}
+          delimiter={mapping.delimiter}
+          onSaved={profileSaved}
+          onCancel={() => setMapping(null)}
+        />
+      )}
+      {preview && (
+        <div style={{ marginTop: 8 }}>
+          <div style={{ fontSize: 13 }}>
+            {formatLabel(preview)}
+            {preview.signRule && ` (${SIGN_RULE_LABELS[preview.signRule] ?? preview.signRule})`}: {preview.new} new,{" "}
+            {preview.duplicates} already imported
+          </div>
+          {dateWarning(preview.dates) && <div style={{ fontSize: 12, color: "#d97706" }}>{dateWarning(preview.dates)}</div>}
+          {preview.rejected && preview.rejected.length > 0 && <RejectedRows rows={preview.rejected} />}
+          <div style={{ maxHeight: 200, overflowY: "auto", marginTop: 4 }}>
+            <table style={{ width: "100%", fontSize: 12, borderCollapse: "collapse" }}>
+              <tbody>
+                {preview.rows.map((r) => (
+                  <tr key={r.row} style={{ opacity: r.status === "duplicate" ? 0.5 : 1 }}>
+                    <td style={{ padding: "2px 6px" }}>#{r.row}</td>
+                    <td style={{ padding: "2px 6px" }}>{r.transaction.date}</td>
+                    <td style={{ padding: "2px 6px" }}>{r.transaction.name}</td>
+                    <td style={{ padding: "2px 6px", textAlign: "right" }}>{r.transaction.amount.toFixed(2)}</td>
+                    <td style={{ padding: "2px 6px" }}>
+                      {r.transaction.category}
+                      {r.transaction.categorySource === "learned" && r.transaction.categoryConfidence != null
+                        ? ` (learned, ${Math.round(r.transaction.categoryConfidence * 100)}%)`
+                        : ""}
+                    </td>
+                    <td style={{ padding: "2px 6px" }}>{r.status === "duplicate" ? "duplicate" : "new"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
       <div style={{ marginTop: 8, fontSize: 12, opacity: 0.7 }}>
-      Expected: generic (date,name,amount) or Discover Recent Activity CSV
+      Recognizes Chase, Amex, Capital One, Discover and generic (date,name,amount) exports, plus any profile you save.
+      OFX/QFX and QIF statements are matched to accounts by account number.
       </div>
+      {batches.length > 0 && (
+        <div style={{ marginTop: 12, fontSize: 13 }}>
+          <strong>Recent imports</strong>
+          {batches.slice(0, 5).map((b) => (
+            <div key={b.id} style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 4 }}>
+              <span style={{ flex: 1 }}>
+                {new Date(b.createdAt).toLocaleString()} · {b.fileName}
+                {b.account ? ` · ${b.account}` : ""} · {b.added} added
+              </span>
+              <button onClick={() => undo(b)}>Undo</button>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { apiFetch, downloadFile } from "./api";
+import type { Theme } from "./theme";
+
+const FORMATS = [
+  { format: "csv", label: "CSV" },
+  { format: "json", label: "JSON" },
+  { format: "ofx", label: "OFX" },
+] as const;
+
+/**
+ * Downloads the transactions matching `query` (the period filters) and the
+ * table's search and `filters`, and opens a printable report for the period.
+ */
+export function ExportButtons({ query, filters, theme }: { query: string; filters: URLSearchParams; theme: Theme }) {
+  const [msg, setMsg] = useState("");
+
+  function exportQuery(extra: Record<string, string>) {
+    const params = new URLSearchParams(query);
+    for (const [k, v] of Object.entries(extra)) params.set(k, v);
+    return `?${params}`;
+  }
+
+  async function download(format: string) {
+    setMsg("");
+    try {
+      await downloadFile(`/transactions/export${exportQuery({ ...Object.fromEntries(filters), format })}`);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Download failed");
+    }
+  }
+
+  // The tab is opened before the request so popup blockers allow it.
+  async function openReport() {
+    setMsg("");
+    const tab = window.open("", "_blank");
+    const res = await apiFetch(`/insights/report${exportQuery({ format: "html" })}`);
+    if (!res.ok) {
+      tab?.close();
+      setMsg("Couldn't build the report");
+      return;
+    }
+    const url = URL.createObjectURL(await res.blob());
+    if (tab) tab.location.href = url;
+  }
+
+  const button = {
+    padding: "6px 10px",
+    borderRadius: 6,
+    border: "none",
+    cursor: "pointer",
+    fontSize: 13,
+    fontWeight: 600,
+    background: theme.buttonBg,
+    color: theme.buttonText,
+  };
+
+  return (
+    <div style={{ display: "flex", gap: 4, alignItems: "center" }}>
+      {msg && <span style={{ fontSize: 13, color: "#ef4444" }}>{msg}</span>}
+      {FORMATS.map((f) => (
+        <button key={f.format} onClick={() => download(f.format)} style={button} title={`Download as ${f.label}`}>
+          ⬇ {f.label}
+        </button>
+      ))}
+      <button onClick={openReport} style={button} title="Totals, categories and advice for the period, ready to print">
+        🖨 Report
+      </button>
+    </div>
+  );
+}
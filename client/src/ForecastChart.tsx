@@ -0,0 +1,78 @@
+import { money } from "./format";
+import type { Theme } from "./theme";
+
+export type Forecast = {
+  asOf: string;
+  startingBalance: number;
+  discretionaryDaily: number;
+  events: Array<{ date: string; name: string; category: string; amount: number }>;
+  points: Array<{ date: string; balance: number; recurring: number; discretionary: number }>;
+  lowest: { date: string; balance: number } | null;
+  floor: number;
+};
+
+const WIDTH = 720;
+const HEIGHT = 200;
+const PAD = { top: 12, right: 8, bottom: 24, left: 8 };
+const MARKERS = [30, 60, 90];
+
+/** Projected daily balance with the low-balance floor; upcoming recurring items listed below. */
+export function ForecastChart({ forecast, theme }: { forecast: Forecast | null; theme: Theme }) {
+  if (!forecast || forecast.points.length === 0) {
+    return <div style={{ color: theme.textMuted, fontSize: 14 }}>No data to forecast from yet</div>;
+  }
+
+  const { points, floor } = forecast;
+  const balances = [forecast.startingBalance, ...points.map((p) => p.balance)];
+  const max = Math.max(floor, ...balances);
+  const min = Math.min(floor, 0, ...balances);
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const y = (v: number) => PAD.top + ((max - v) / (max - min || 1)) * plotH;
+  const x = (i: number) => PAD.left + (i / points.length) * (WIDTH - PAD.left - PAD.right);
+
+  const path = balances.map((b, i) => `${i === 0 ? "M" : "L"}${x(i)},${y(b)}`).join(" ");
+  const dips = forecast.lowest !== null && forecast.lowest.balance < floor;
+  const upcoming = forecast.events.slice(0, 6);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ width: "100%", height: "auto", display: "block" }}>
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(floor)} y2={y(floor)} stroke="#ef4444" strokeDasharray="5 4" />
+        {MARKERS.filter((d) => d <= points.length).map((d) => (
+          <g key={d}>
+            <line x1={x(d)} x2={x(d)} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke={theme.border} />
+            <text x={x(d)} y={HEIGHT - 6} textAnchor="end" fontSize={11} fill={theme.textMuted}>
+              {d} days: {money(points[d - 1]!.balance)}
+            </text>
+          </g>
+        ))}
+        <path d={path} fill="none" stroke={dips ? "#ef4444" : "#667eea"} strokeWidth={2} />
+      </svg>
+      <div style={{ display: "flex", gap: 20, flexWrap: "wrap", marginTop: 12, fontSize: 13, color: theme.textMuted }}>
+        <span>Today ({forecast.asOf}): {money(forecast.startingBalance)}</span>
+        <span>Other spending: {money(forecast.discretionaryDaily)}/day</span>
+        <span><span style={{ color: "#ef4444" }}>┅</span> Floor {money(floor)}</span>
+        {forecast.lowest && (
+          <span style={{ color: dips ? "#ef4444" : theme.text }}>
+            Lowest: {money(forecast.lowest.balance)} on {forecast.lowest.date}
+          </span>
+        )}
+      </div>
+      {upcoming.length > 0 && (
+        <table style={{ width: "100%", marginTop: 12, borderCollapse: "collapse", fontSize: 13 }}>
+          <tbody>
+            {upcoming.map((e) => (
+              <tr key={`${e.date}|${e.name}`} style={{ borderBottom: `1px solid ${theme.tableBorder}` }}>
+                <td style={{ padding: "4px 6px", color: theme.textMuted }}>{e.date}</td>
+                <td style={{ padding: "4px 6px", color: theme.text }}>{e.name}</td>
+                <td style={{ padding: "4px 6px", textAlign: "right", color: e.amount < 0 ? "#ef4444" : "#10b981" }}>
+                  {money(e.amount)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
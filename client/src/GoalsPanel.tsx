@@ -0,0 +1,164 @@
+import { useState } from "react";
+import type { Account } from "./AccountsPanel";
+import { apiFetch, errorMessage } from "./api";
+import { money, parseMoneyInput } from "./format";
+import { monthLabel } from "./filters";
+import type { Theme } from "./theme";
+
+type Goal = {
+  id: string;
+  name: string;
+  targetAmount: number;
+  targetDate: string | null;
+  accountId: string | null;
+  category: string | null;
+  startingAmount: number;
+  progress: {
+    saved: number;
+    remaining: number;
+    percent: number;
+    monthsLeft: number | null;
+    requiredMonthly: number | null;
+    shareOfSavings: number | null;
+    onTrack: boolean | null;
+    projectedDate: string | null;
+  };
+};
+
+export type GoalsOverview = {
+  pace: { savingsRate: number; monthlyIncome: number; monthlySavings: number };
+  goals: Goal[];
+};
+
+/** Savings goals with progress bars and how much to put aside each month to hit the target date. */
+export function GoalsPanel({
+  overview,
+  accounts,
+  categories,
+  theme,
+  onChanged,
+}: {
+  overview: GoalsOverview | null;
+  accounts: Account[];
+  categories: string[];
+  theme: Theme;
+  onChanged: () => void;
+}) {
+  const [msg, setMsg] = useState("");
+  const [name, setName] = useState("");
+  const [target, setTarget] = useState("");
+  const [targetDate, setTargetDate] = useState("");
+  const [link, setLink] = useState(""); // "", "account:<id>" or "category:<name>"
+  const [starting, setStarting] = useState("");
+
+  async function send(path: string, method: string, body?: unknown) {
+    const res = await apiFetch(path, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setMsg(`Error: ${errorMessage(data, "Request failed")}`);
+      return null;
+    }
+    setMsg("");
+    onChanged();
+    return data;
+  }
+
+  async function addGoal() {
+    const [kind, value] = [link.slice(0, link.indexOf(":")), link.slice(link.indexOf(":") + 1)];
+    const created = await send("/goals", "POST", {
+      name: name.trim(),
+      targetAmount: parseMoneyInput(target),
+      targetDate: targetDate || null,
+      accountId: kind === "account" ? value : null,
+      category: kind === "category" ? value : null,
+      startingAmount: starting.trim() ? parseMoneyInput(starting) : 0,
+    });
+    if (!created) return;
+    setName("");
+    setTarget("");
+    setTargetDate("");
+    setStarting("");
+  }
+
+  const pace = overview?.pace;
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <input placeholder="Goal name" value={name} onChange={(e) => setName(e.target.value)} />
+        <input placeholder="Target" inputMode="decimal" value={target} onChange={(e) => setTarget(e.target.value)} style={{ width: 90 }} />
+        <input type="date" title="Target date (optional)" value={targetDate} onChange={(e) => setTargetDate(e.target.value)} />
+        <select value={link} onChange={(e) => setLink(e.target.value)} title="Where the money for this goal goes">
+          <option value="">Not linked</option>
+          {accounts.map((a) => (
+            <option key={a.id} value={`account:${a.id}`}>
+              Account: {a.name}
+            </option>
+          ))}
+          {categories.map((c) => (
+            <option key={c} value={`category:${c}`}>
+              Category: {c}
+            </option>
+          ))}
+        </select>
+        <input
+          placeholder="Already saved"
+          inputMode="decimal"
+          value={starting}
+          onChange={(e) => setStarting(e.target.value)}
+          style={{ width: 100 }}
+        />
+        <button onClick={addGoal} disabled={!name.trim() || !target.trim()}>
+          Add goal
+        </button>
+      </div>
+      {msg && <div style={{ marginTop: 8, opacity: 0.85, whiteSpace: "pre-wrap" }}>{msg}</div>}
+      {pace && (
+        <div style={{ marginTop: 12, color: theme.textMuted }}>
+          Recent savings rate {(pace.savingsRate * 100).toFixed(1)}%: about {money(pace.monthlySavings)} a month from{" "}
+          {money(pace.monthlyIncome)} of income.
+        </div>
+      )}
+      <div style={{ display: "flex", flexDirection: "column", gap: 16, marginTop: 16 }}>
+        {overview?.goals.map((g) => {
+          const p = g.progress;
+          const color = p.remaining === 0 ? "#10b981" : p.onTrack === false ? "#f59e0b" : "#667eea";
+
+          return (
+            <div key={g.id}>
+              <div style={{ display: "flex", justifyContent: "space-between", marginBottom: 6 }}>
+                <span style={{ fontSize: 14, fontWeight: 600, color: theme.text }}>
+                  {g.name}
+                  {g.targetDate && <span style={{ fontWeight: 400, color: theme.textMuted }}> · by {g.targetDate}</span>}
+                </span>
+                <span style={{ fontWeight: 600, color }}>
+                  {money(p.saved)} / {money(g.targetAmount)}
+                </span>
+              </div>
+              <div style={{ height: 8, background: theme.barBg, borderRadius: 4, overflow: "hidden" }}>
+                <div style={{ width: `${p.percent * 100}%`, height: "100%", background: color }} />
+              </div>
+              <div style={{ display: "flex", justifyContent: "space-between", marginTop: 6, color: theme.textMuted }}>
+                <span>
+                  {p.remaining === 0
+                    ? "Reached 🎉"
+                    : p.requiredMonthly !== null
+                      ? `Save ${money(p.requiredMonthly)}/month for ${p.monthsLeft} months` +
+                        (p.shareOfSavings !== null ? ` (${Math.round(p.shareOfSavings * 100)}% of what you save now)` : "")
+                      : p.projectedDate
+                        ? `At your current pace: ${monthLabel(p.projectedDate)}`
+                        : "Not saving at the moment"}
+                </span>
+                <button onClick={() => send(`/goals/${g.id}`, "DELETE")}>Delete</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
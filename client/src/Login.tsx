@@ -0,0 +1,97 @@
+import { useState, type FormEvent } from "react";
+import { authenticate, type Session } from "./api";
+
+export function Login({ onLoggedIn }: { onLoggedIn: (session: Session) => void }) {
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [msg, setMsg] = useState<string>("");
+  const [busy, setBusy] = useState(false);
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setMsg("");
+    try {
+      onLoggedIn(await authenticate(mode, email, password));
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const inputStyle = {
+    padding: "10px 12px",
+    borderRadius: 8,
+    border: "1px solid #475569",
+    fontSize: 14,
+    background: "#475569",
+    color: "#f1f5f9",
+  };
+
+  return (
+    <div style={{ minHeight: "100vh", background: "#1e293b", fontFamily: "system-ui", display: "grid", placeItems: "center" }}>
+      <form
+        onSubmit={submit}
+        style={{
+          background: "#334155",
+          borderRadius: 16,
+          padding: 32,
+          width: 340,
+          display: "flex",
+          flexDirection: "column",
+          gap: 12,
+          boxShadow: "0 4px 6px rgba(0,0,0,0.1)",
+        }}
+      >
+        <h1 style={{ margin: "0 0 8px 0", color: "#f1f5f9", fontSize: 28, fontWeight: 700 }}>
+          Finance Robot 🤖
+        </h1>
+        <input
+          type="email"
+          placeholder="Email"
+          autoComplete="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          style={inputStyle}
+        />
+        <input
+          type="password"
+          placeholder="Password"
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          required
+          minLength={8}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          style={inputStyle}
+        />
+        <button
+          type="submit"
+          disabled={busy}
+          style={{
+            padding: "12px 24px",
+            borderRadius: 12,
+            border: "none",
+            background: "#667eea",
+            color: "white",
+            cursor: busy ? "wait" : "pointer",
+            fontSize: 15,
+            fontWeight: 600,
+          }}
+        >
+          {mode === "login" ? "Sign In" : "Create Account"}
+        </button>
+        {msg && <div style={{ color: "#ef4444", fontSize: 13, whiteSpace: "pre-wrap" }}>{msg}</div>}
+        <button
+          type="button"
+          onClick={() => setMode(mode === "login" ? "register" : "login")}
+          style={{ background: "none", border: "none", color: "#94a3b8", cursor: "pointer", fontSize: 13 }}
+        >
+          {mode === "login" ? "No account? Register" : "Already registered? Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { apiFetch, errorMessage } from "./api";
+
+type Merchant = {
+  id: string;
+  userId: string | null; // null for the built-in entries, which can't be edited
+  name: string;
+  aliases: string[];
+  category: string | null;
+};
+
+/**
+ * The merchant directory: the user's own entries, editable, above the
+ * built-in ones. Every change is re-applied to existing transactions right
+ * away so names and categories stay in step with the directory.
+ */
+export function MerchantsPanel({ categories, onChanged }: { categories: string[]; onChanged: () => void }) {
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [msg, setMsg] = useState("");
+  const [name, setName] = useState("");
+  const [aliases, setAliases] = useState("");
+  const [category, setCategory] = useState("");
+  const [showBuiltin, setShowBuiltin] = useState(false);
+
+  function refreshMerchants() {
+    return apiFetch("/merchants")
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setMerchants);
+  }
+
+  useEffect(() => {
+    refreshMerchants();
+  }, []);
+
+  async function send(path: string, method: string, body?: unknown) {
+    const res = await apiFetch(path, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setMsg(`Error: ${errorMessage(data, "Request failed")}`);
+      return null;
+    }
+    setMsg("");
+    return data;
+  }
+
+  async function applyDirectory() {
+    const data = await send("/merchants/apply", "POST");
+    if (!data) return;
+    if (data.updated > 0) setMsg(`Updated ${data.updated} of ${data.total} transactions ✅`);
+    onChanged();
+  }
+
+  async function addMerchant() {
+    const created = await send("/merchants", "POST", {
+      name,
+      aliases: aliases.split(",").map((a) => a.trim()).filter(Boolean),
+      category: category.trim() || null,
+    });
+    if (!created) return;
+    setName("");
+    setAliases("");
+    setCategory("");
+    await refreshMerchants();
+    await applyDirectory();
+  }
+
+  async function updateCategory(merchant: Merchant, value: string) {
+    const next = value.trim() || null;
+    if (next === merchant.category) return;
+    if (!(await send(`/merchants/${merchant.id}`, "PATCH", { category: next }))) return;
+    await refreshMerchants();
+    await applyDirectory();
+  }
+
+  async function deleteMerchant(merchant: Merchant) {
+    if (!(await send(`/merchants/${merchant.id}`, "DELETE"))) return;
+    await refreshMerchants();
+    await applyDirectory();
+  }
+
+  const own = merchants.filter((m) => m.userId !== null);
+  const builtin = merchants.filter((m) => m.userId === null);
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <input placeholder="Merchant name" value={name} onChange={(e) => setName(e.target.value)} />
+        <input
+          placeholder="Descriptors, comma-separated"
+          title="How the merchant appears on statements, e.g. AMZN Mktp, AMAZON.COM"
+          value={aliases}
+          onChange={(e) => setAliases(e.target.value)}
+          style={{ minWidth: 220 }}
+        />
+        <span>→</span>
+        <input placeholder="Category (optional)" list="merchant-categories" value={category} onChange={(e) => setCategory(e.target.value)} />
+        <datalist id="merchant-categories">
+          {categories.map((c) => (
+            <option key={c} value={c} />
+          ))}
+        </datalist>
+        <button onClick={addMerchant} disabled={!name.trim()}>
+          Add merchant
+        </button>
+      </div>
+      {msg && <div style={{ marginTop: 8, opacity: 0.85, whiteSpace: "pre-wrap" }}>{msg}</div>}
+      <table style={{ width: "100%", marginTop: 12, borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ textAlign: "left", opacity: 0.7 }}>
+            <th style={{ padding: "4px 6px" }}>Merchant</th>
+            <th style={{ padding: "4px 6px" }}>Descriptors</th>
+            <th style={{ padding: "4px 6px" }}>Category</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {[...own, ...(showBuiltin ? builtin : [])].map((m) => (
+            <tr key={m.id} style={{ opacity: m.userId === null ? 0.6 : 1 }}>
+              <td style={{ padding: "4px 6px" }}>{m.name}</td>
+              <td style={{ padding: "4px 6px" }}>{m.aliases.join(", ")}</td>
+              <td style={{ padding: "4px 6px" }}>
+                {m.userId === null ? (
+                  m.category
+                ) : (
+                  <input
+                    list="merchant-categories"
+                    defaultValue={m.category ?? ""}
+                    onBlur={(e) => updateCategory(m, e.target.value)}
+                    style={{ width: 120 }}
+                  />
+                )}
+              </td>
+              <td style={{ padding: "4px 6px", textAlign: "right" }}>
+                {m.userId !== null && <button onClick={() => deleteMerchant(m)}>Delete</button>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button style={{ marginTop: 8 }} onClick={() => setShowBuiltin(!showBuiltin)}>
+        {showBuiltin ? "Hide" : "Show"} built-in merchants ({builtin.length})
+      </button>
+    </div>
+  );
+}
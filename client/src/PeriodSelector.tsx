@@ -0,0 +1,76 @@
+import { monthLabel, type Facets, type Filters } from "./filters";
+import type { Theme } from "./theme";
+
+export function PeriodSelector({
+  value,
+  facets,
+  theme,
+  onChange,
+}: {
+  value: Filters;
+  facets: Facets;
+  theme: Theme;
+  onChange: (f: Filters) => void;
+}) {
+  const control = {
+    padding: "10px 12px",
+    borderRadius: 12,
+    border: "none",
+    fontSize: 14,
+    background: theme.buttonBg,
+    color: theme.buttonText,
+    cursor: "pointer",
+  };
+
+  // Encodes the period choice as one <select> value: "all", "custom" or "month:YYYY-MM".
+  const periodValue = value.period === "month" ? `month:${value.month}` : value.period;
+
+  return (
+    <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+      <select
+        value={periodValue}
+        onChange={(e) => {
+          const v = e.target.value;
+          if (v.startsWith("month:")) onChange({ ...value, period: "month", month: v.slice(6) });
+          else onChange({ ...value, period: v as Filters["period"] });
+        }}
+        style={control}
+      >
+        <option value="all">All time</option>
+        {facets.months.map((m) => (
+          <option key={m} value={`month:${m}`}>
+            {monthLabel(m)}
+          </option>
+        ))}
+        <option value="custom">Custom range…</option>
+      </select>
+      {value.period === "custom" && (
+        <>
+          <input type="date" value={value.from} onChange={(e) => onChange({ ...value, from: e.target.value })} style={control} />
+          <span style={{ color: theme.textMuted }}>–</span>
+          <input type="date" value={value.to} onChange={(e) => onChange({ ...value, to: e.target.value })} style={control} />
+        </>
+      )}
+      {facets.accounts.length > 0 && (
+        <select value={value.account} onChange={(e) => onChange({ ...value, account: e.target.value })} style={control}>
+          <option value="">All accounts</option>
+          {facets.accounts.map((a) => (
+            <option key={a} value={a}>
+              {a}
+            </option>
+          ))}
+        </select>
+      )}
+      {facets.tags.length > 0 && (
+        <select value={value.tag} onChange={(e) => onChange({ ...value, tag: e.target.value })} style={control}>
+          <option value="">Any tag</option>
+          {facets.tags.map((t) => (
+            <option key={t} value={t}>
+              #{t}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
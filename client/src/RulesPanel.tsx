@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { apiFetch, errorMessage } from "./api";
+
+type Rule = {
+  id: string;
+  matchType: "contains" | "regex" | "merchant" | "amount-range";
+  pattern: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  priority: number;
+  category: string;
+  enabled: boolean;
+};
+
+const MATCH_LABELS: Record<Rule["matchType"], string> = {
+  contains: "Name contains",
+  regex: "Name matches regex",
+  merchant: "Merchant is",
+  "amount-range": "Amount between",
+};
+
+function describe(rule: Rule) {
+  if (rule.matchType !== "amount-range") return `${MATCH_LABELS[rule.matchType]} "${rule.pattern}"`;
+  const min = rule.minAmount ?? "−∞";
+  const max = rule.maxAmount ?? "∞";
+  return `${MATCH_LABELS[rule.matchType]} ${min} and ${max}`;
+}
+
+function parseOptionalNumber(v: string) {
+  return v.trim() === "" ? null : Number(v);
+}
+
+export function RulesPanel({ onApplied }: { onApplied: () => void }) {
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [msg, setMsg] = useState("");
+  const [matchType, setMatchType] = useState<Rule["matchType"]>("contains");
+  const [pattern, setPattern] = useState("");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [category, setCategory] = useState("");
+  const [priority, setPriority] = useState("50");
+
+  function refreshRules() {
+    return apiFetch("/rules")
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setRules);
+  }
+
+  useEffect(() => {
+    refreshRules();
+  }, []);
+
+  async function send(path: string, method: string, body?: unknown) {
+    const res = await apiFetch(path, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setMsg(`Error: ${errorMessage(data, "Request failed")}`);
+      return null;
+    }
+    setMsg("");
+    return data;
+  }
+
+  async function addRule() {
+    const created = await send("/rules", "POST", {
+      matchType,
+      pattern,
+      minAmount: parseOptionalNumber(minAmount),
+      maxAmount: parseOptionalNumber(maxAmount),
+      priority: Number(priority) || 0,
+      category,
+    });
+    if (!created) return;
+    setPattern("");
+    setMinAmount("");
+    setMaxAmount("");
+    setCategory("");
+    await refreshRules();
+  }
+
+  async function updateRule(rule: Rule, patch: Partial<Rule>) {
+    if (await send(`/rules/${rule.id}`, "PATCH", patch)) await refreshRules();
+  }
+
+  async function deleteRule(rule: Rule) {
+    if (await send(`/rules/${rule.id}`, "DELETE")) await refreshRules();
+  }
+
+  async function applyRules() {
+    const data = await send("/rules/apply", "POST");
+    if (!data) return;
+    setMsg(`Re-categorized ${data.updated} of ${data.total} transactions ✅`);
+    onApplied();
+  }
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <select value={matchType} onChange={(e) => setMatchType(e.target.value as Rule["matchType"])}>
+          {Object.entries(MATCH_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {matchType === "amount-range" ? (
+          <>
+            <input placeholder="Min" inputMode="decimal" value={minAmount} onChange={(e) => setMinAmount(e.target.value)} style={{ width: 80 }} />
+            <input placeholder="Max" inputMode="decimal" value={maxAmount} onChange={(e) => setMaxAmount(e.target.value)} style={{ width: 80 }} />
+          </>
+        ) : (
+          <input placeholder="Pattern" value={pattern} onChange={(e) => setPattern(e.target.value)} />
+        )}
+        <span>→</span>
+        <input placeholder="Category" value={category} onChange={(e) => setCategory(e.target.value)} />
+        <input
+          title="Priority (higher runs first)"
+          inputMode="numeric"
+          value={priority}
+          onChange={(e) => setPriority(e.target.value)}
+          style={{ width: 50 }}
+        />
+        <button onClick={addRule} disabled={!category.trim()}>
+          Add rule
+        </button>
+        <button style={{ marginLeft: "auto" }} onClick={applyRules}>
+          Re-apply to existing transactions
+        </button>
+      </div>
+      {msg && <div style={{ marginTop: 8, opacity: 0.85, whiteSpace: "pre-wrap" }}>{msg}</div>}
+      <table style={{ width: "100%", marginTop: 12, borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ textAlign: "left", opacity: 0.7 }}>
+            <th style={{ padding: "4px 6px" }}>Priority</th>
+            <th style={{ padding: "4px 6px" }}>Match</th>
+            <th style={{ padding: "4px 6px" }}>Category</th>
+            <th style={{ padding: "4px 6px" }}>On</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {rules.map((r) => (
+            <tr key={r.id} style={{ opacity: r.enabled ? 1 : 0.5 }}>
+              <td style={{ padding: "4px 6px" }}>
+                <input
+                  type="number"
+                  defaultValue={r.priority}
+                  onBlur={(e) => {
+                    const p = Number(e.target.value);
+                    if (Number.isInteger(p) && p !== r.priority) updateRule(r, { priority: p });
+                  }}
+                  style={{ width: 56 }}
+                />
+              </td>
+              <td style={{ padding: "4px 6px" }}>{describe(r)}</td>
+              <td style={{ padding: "4px 6px" }}>{r.category}</td>
+              <td style={{ padding: "4px 6px" }}>
+                <input type="checkbox" checked={r.enabled} onChange={(e) => updateRule(r, { enabled: e.target.checked })} />
+              </td>
+              <td style={{ padding: "4px 6px", textAlign: "right" }}>
+                <button onClick={() => deleteRule(r)}>Delete</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { apiFetch, errorMessage } from "./api";
+import { parseMoneyInput } from "./format";
+
+export type PaySchedule = "weekly" | "biweekly" | "semimonthly" | "monthly";
+
+export type Settings = {
+  expectedMonthlyIncome: number | null;
+  paySchedule: PaySchedule | null;
+  nextPayday: string | null;
+  currency: string;
+  locale: string;
+};
+
+type Field = keyof Settings;
+
+// Edits are kept as text until saved; fields the user hasn't touched show the saved value.
+type Draft = Partial<Record<Field, string>>;
+
+function shown(settings: Settings, field: Field) {
+  return settings[field] === null ? "" : String(settings[field]);
+}
+
+/** Expected income and pay schedule (used by every insight), plus currency and locale. */
+export function SettingsPanel({ settings, onChanged }: { settings: Settings; onChanged: () => void }) {
+  const [msg, setMsg] = useState("");
+  const [draft, setDraft] = useState<Draft>({});
+
+  const value = (field: Field) => draft[field] ?? shown(settings, field);
+  const edit = (field: Field) => (e: { target: { value: string } }) => setDraft({ ...draft, [field]: e.target.value });
+
+  async function send(method: string, body?: unknown) {
+    const res = await apiFetch("/settings", {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setMsg(`Error: ${errorMessage(data, "Request failed")}`);
+      return;
+    }
+    setMsg("Saved ✅");
+    setDraft({});
+    onChanged();
+  }
+
+  function save() {
+    const body: Partial<Record<Field, unknown>> = {};
+    for (const [field, v] of Object.entries(draft) as Array<[Field, string]>) {
+      if (field === "expectedMonthlyIncome") body[field] = v.trim() ? parseMoneyInput(v) : null;
+      else if (field === "paySchedule" || field === "nextPayday") body[field] = v || null;
+      else body[field] = v;
+    }
+    send("PATCH", body);
+  }
+
+  const payday = value("paySchedule") !== "" && value("paySchedule") !== "semimonthly";
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <input
+          placeholder="Expected monthly income"
+          title="Used instead of recorded income in totals, savings rate, advice, forecast and goals"
+          inputMode="decimal"
+          value={value("expectedMonthlyIncome")}
+          onChange={edit("expectedMonthlyIncome")}
+          style={{ width: 180 }}
+        />
+        <select value={value("paySchedule")} onChange={edit("paySchedule")} title="When paychecks arrive, for the forecast">
+          <option value="">No pay schedule</option>
+          <option value="weekly">Weekly</option>
+          <option value="biweekly">Every two weeks</option>
+          <option value="semimonthly">15th and month end</option>
+          <option value="monthly">Monthly</option>
+        </select>
+        {payday && (
+          <input type="date" title="Next (or any past) payday" value={value("nextPayday")} onChange={edit("nextPayday")} />
+        )}
+        <input placeholder="Currency" title="ISO code, e.g. USD or EUR" value={value("currency")} onChange={edit("currency")} style={{ width: 70 }} />
+        <input placeholder="Locale" title="e.g. en-US or de-DE" value={value("locale")} onChange={edit("locale")} style={{ width: 80 }} />
+        <button onClick={save} disabled={Object.keys(draft).length === 0}>
+          Save
+        </button>
+        <button onClick={() => send("DELETE")}>Reset to defaults</button>
+      </div>
+      {msg && <div style={{ marginTop: 8, opacity: 0.85, whiteSpace: "pre-wrap" }}>{msg}</div>}
+    </div>
+  );
+}
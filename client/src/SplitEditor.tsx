@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { apiFetch, errorMessage } from "./api";
+import { money, parseMoneyInput } from "./format";
+import type { Theme } from "./theme";
+import type { Tx } from "./types";
+
+type Part = { amount: string; category: string; note: string };
+
+const blank: Part = { amount: "", category: "", note: "" };
+
+/**
+ * Splits a transaction across categories. Parts are entered as positive
+ * amounts and take the transaction's sign; they must add up to its amount.
+ */
+export function SplitEditor({
+  tx,
+  theme,
+  onSaved,
+  onClose,
+}: {
+  tx: Tx;
+  theme: Theme;
+  onSaved: () => void;
+  onClose: () => void;
+}) {
+  const [parts, setParts] = useState<Part[]>(() =>
+    tx.splits
+      ? tx.splits.map((s) => ({ amount: String(Math.abs(s.amount)), category: s.category, note: s.note }))
+      : [{ amount: String(Math.abs(tx.amount)), category: tx.category?.trim() ? tx.category : "", note: "" }, blank]
+  );
+  const [error, setError] = useState("");
+
+  const sign = tx.amount < 0 ? -1 : 1;
+  const amounts = parts.map((p) => parseMoneyInput(p.amount));
+  const allocated = amounts.reduce((s, a) => s + (Number.isNaN(a) ? 0 : a), 0);
+  const remaining = Math.abs(tx.amount) - allocated;
+
+  const input = {
+    boxSizing: "border-box" as const,
+    padding: "6px 8px",
+    borderRadius: 6,
+    border: `1px solid ${theme.border}`,
+    fontSize: 13,
+    background: theme.inputBg,
+    color: theme.text,
+  };
+
+  function change(i: number, field: keyof Part, value: string) {
+    setParts(parts.map((p, j) => (j === i ? { ...p, [field]: value } : p)));
+  }
+
+  async function send(method: "PUT" | "DELETE") {
+    let body: string | undefined;
+    if (method === "PUT") {
+      if (amounts.some(Number.isNaN) || parts.some((p) => !p.category.trim())) {
+        setError("Every part needs an amount and a category");
+        return;
+      }
+      body = JSON.stringify({
+        splits: parts.map((p, i) => ({ amount: sign * amounts[i]!, category: p.category.trim(), note: p.note.trim() })),
+      });
+    }
+
+    const res = await apiFetch(`/transactions/${tx.id}/splits`, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      body,
+    });
+    if (!res.ok) {
+      const data = await res.json();
+      setError(errorMessage(data, "Save failed"));
+      return;
+    }
+    onSaved();
+    onClose();
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 6, fontSize: 13, color: theme.text }}>
+      {parts.map((p, i) => (
+        <div key={i} style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <input
+            inputMode="decimal"
+            placeholder="Amount"
+            value={p.amount}
+            onChange={(e) => change(i, "amount", e.target.value)}
+            style={{ ...input, width: 100, textAlign: "right" }}
+          />
+          <input
+            list="transaction-categories"
+            placeholder="Category"
+            value={p.category}
+            onChange={(e) => change(i, "category", e.target.value)}
+            style={{ ...input, width: 160 }}
+          />
+          <input placeholder="Note" value={p.note} onChange={(e) => change(i, "note", e.target.value)} style={{ ...input, flex: 1 }} />
+          <button onClick={() => setParts(parts.filter((_, j) => j !== i))} disabled={parts.length <= 2} title="Remove part">
+            ✕
+          </button>
+        </div>
+      ))}
+      <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        <button onClick={() => setParts([...parts, { ...blank, amount: remaining > 0 ? remaining.toFixed(2) : "" }])}>
+          Add part
+        </button>
+        <span style={{ color: Math.abs(remaining) < 0.005 ? theme.textMuted : "#ef4444" }}>
+          {Math.abs(remaining) < 0.005 ? `Fully allocated (${money(tx.amount)})` : `${money(sign * remaining)} left to allocate`}
+        </span>
+        <span style={{ flex: 1 }} />
+        {tx.splits && <button onClick={() => send("DELETE")}>Remove split</button>}
+        <button onClick={() => send("PUT")}>Save split</button>
+        <button onClick={onClose}>Cancel</button>
+      </div>
+      {error && <div style={{ color: "#ef4444", fontSize: 12, whiteSpace: "pre-wrap" }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { money } from "./format";
+import type { Theme } from "./theme";
+
+export type RecurringSeries = {
+  merchant: string;
+  name: string;
+  category: string;
+  kind: "expense" | "income";
+  cadence: "weekly" | "biweekly" | "monthly" | "annual";
+  lastAmount: number;
+  lastDate: string;
+  nextExpected: string;
+  annualizedCost: number;
+  status: "active" | "missed";
+  isNew: boolean;
+  priceChange: { previous: number; current: number; percent: number } | null;
+};
+
+const CADENCE_LABELS: Record<RecurringSeries["cadence"], string> = {
+  weekly: "Weekly",
+  biweekly: "Every 2 weeks",
+  monthly: "Monthly",
+  annual: "Yearly",
+};
+
+function Badge({ color, children }: { color: string; children: string }) {
+  return (
+    <span
+      style={{
+        marginLeft: 6,
+        padding: "2px 6px",
+        borderRadius: 4,
+        background: color,
+        color: "white",
+        fontSize: 11,
+        fontWeight: 600,
+      }}
+    >
+      {children}
+    </span>
+  );
+}
+
+/** Recurring charges (not income), with price increases, missed and new ones called out. */
+export function SubscriptionsPanel({ series, theme }: { series: RecurringSeries[]; theme: Theme }) {
+  const charges = series.filter((s) => s.kind === "expense");
+  const active = charges.filter((s) => s.status === "active");
+  const yearly = active.reduce((sum, s) => sum + s.annualizedCost, 0);
+
+  if (charges.length === 0) {
+    return <div style={{ color: theme.textMuted, fontSize: 14 }}>No recurring charges detected yet</div>;
+  }
+
+  const th = { textAlign: "left" as const, padding: "8px", fontSize: 12, fontWeight: 600, color: theme.textMuted };
+  const td = { padding: "8px", fontSize: 14, color: theme.text };
+
+  return (
+    <div>
+      <div style={{ fontSize: 14, color: theme.textMuted, marginBottom: 12 }}>
+        {active.length} active · {money(yearly)} per year · {money(yearly / 12)} per month
+      </div>
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ borderBottom: `2px solid ${theme.border}` }}>
+            <th style={th}>MERCHANT</th>
+            <th style={th}>CADENCE</th>
+            <th style={{ ...th, textAlign: "right" }}>AMOUNT</th>
+            <th style={th}>NEXT</th>
+            <th style={{ ...th, textAlign: "right" }}>PER YEAR</th>
+          </tr>
+        </thead>
+        <tbody>
+          {charges.map((s) => (
+            <tr
+              key={s.merchant}
+              style={{ borderBottom: `1px solid ${theme.tableBorder}`, opacity: s.status === "missed" ? 0.6 : 1 }}
+            >
+              <td style={td}>
+                {s.name}
+                {s.isNew && <Badge color="#667eea">New</Badge>}
+                {s.status === "missed" && <Badge color="#64748b">Missed</Badge>}
+                {s.priceChange && (
+                  <Badge color={s.priceChange.percent > 0 ? "#ef4444" : "#10b981"}>
+                    {`${s.priceChange.percent > 0 ? "▲" : "▼"} ${Math.abs(s.priceChange.percent * 100).toFixed(0)}%`}
+                  </Badge>
+                )}
+              </td>
+              <td style={{ ...td, color: theme.textMuted }}>{CADENCE_LABELS[s.cadence]}</td>
+              <td style={{ ...td, textAlign: "right", fontWeight: 600 }}>{money(Math.abs(s.lastAmount))}</td>
+              <td style={{ ...td, color: theme.textMuted }}>{s.status === "missed" ? "—" : s.nextExpected}</td>
+              <td style={{ ...td, textAlign: "right" }}>{money(s.annualizedCost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
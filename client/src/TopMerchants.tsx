@@ -0,0 +1,51 @@
+import { money } from "./format";
+import type { Theme } from "./theme";
+
+export type MerchantSpend = {
+  merchant: string;
+  category: string;
+  spend: number;
+  visits: number;
+  averageSpend: number;
+  lastDate: string;
+};
+
+export type MerchantSort = "spend" | "visits";
+
+/** Where the money went in the selected period, by merchant. */
+export function TopMerchants({ merchants, sort, theme }: { merchants: MerchantSpend[]; sort: MerchantSort; theme: Theme }) {
+  if (merchants.length === 0) {
+    return <div style={{ color: theme.textMuted, fontSize: 14 }}>No spending in this period</div>;
+  }
+
+  const th = { textAlign: "left" as const, padding: "8px", fontSize: 12, fontWeight: 600, color: theme.textMuted };
+  const td = { padding: "8px", fontSize: 14, color: theme.text };
+  const highlight = { ...td, fontWeight: 700 };
+
+  return (
+    <table style={{ width: "100%", borderCollapse: "collapse" }}>
+      <thead>
+        <tr style={{ borderBottom: `2px solid ${theme.border}` }}>
+          <th style={th}>MERCHANT</th>
+          <th style={th}>CATEGORY</th>
+          <th style={{ ...th, textAlign: "right" }}>SPENT</th>
+          <th style={{ ...th, textAlign: "right" }}>VISITS</th>
+          <th style={{ ...th, textAlign: "right" }}>AVERAGE</th>
+          <th style={th}>LAST</th>
+        </tr>
+      </thead>
+      <tbody>
+        {merchants.map((m) => (
+          <tr key={m.merchant} style={{ borderBottom: `1px solid ${theme.tableBorder}` }}>
+            <td style={td}>{m.merchant}</td>
+            <td style={{ ...td, color: theme.textMuted }}>{m.category}</td>
+            <td style={{ ...(sort === "spend" ? highlight : td), textAlign: "right" }}>{money(m.spend)}</td>
+            <td style={{ ...(sort === "visits" ? highlight : td), textAlign: "right" }}>{m.visits}</td>
+            <td style={{ ...td, textAlign: "right" }}>{money(m.averageSpend)}</td>
+            <td style={{ ...td, color: theme.textMuted }}>{m.lastDate}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
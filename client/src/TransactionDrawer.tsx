@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { apiFetch, downloadFile, errorMessage } from "./api";
+import { money } from "./format";
+import type { Theme } from "./theme";
+import type { Tx, TxAttachment } from "./types";
+
+function fileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function fetchAttachments(txId: string): Promise<TxAttachment[]> {
+  return apiFetch(`/transactions/${txId}/attachments`).then((res) => (res.ok ? res.json() : []));
+}
+
+/**
+ * Side panel with a transaction's details: tags and note (saved together)
+ * and receipts or other attachments (uploaded and removed right away).
+ */
+export function TransactionDrawer({
+  tx,
+  tags,
+  theme,
+  onSaved,
+  onClose,
+}: {
+  tx: Tx;
+  tags: string[];
+  theme: Theme;
+  onSaved: () => void;
+  onClose: () => void;
+}) {
+  // Tags are typed comma-separated; the server lowercases them and turns spaces into dashes.
+  const [draft, setDraft] = useState({ tags: (tx.tags ?? []).join(", "), note: tx.note ?? "" });
+  const [attachments, setAttachments] = useState<TxAttachment[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [msg, setMsg] = useState("");
+
+  function refreshAttachments() {
+    return fetchAttachments(tx.id).then(setAttachments);
+  }
+
+  useEffect(() => {
+    fetchAttachments(tx.id).then(setAttachments);
+  }, [tx.id]);
+
+  async function save() {
+    const res = await apiFetch(`/transactions/${tx.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        tags: draft.tags.split(",").map((t) => t.trim()).filter(Boolean),
+        note: draft.note,
+      }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setMsg(errorMessage(data, "Save failed"));
+      return;
+    }
+    setMsg("Saved ✅");
+    onSaved();
+  }
+
+  async function upload() {
+    if (!file) return;
+    const form = new FormData();
+    form.append("file", file);
+    const res = await apiFetch(`/transactions/${tx.id}/attachments`, { method: "POST", body: form });
+    if (!res.ok) {
+      const data = await res.json();
+      setMsg(errorMessage(data, "Upload failed"));
+      return;
+    }
+    setFile(null);
+    setMsg("");
+    refreshAttachments();
+  }
+
+  async function remove(attachment: TxAttachment) {
+    const res = await apiFetch(`/transactions/${tx.id}/attachments/${attachment.id}`, { method: "DELETE" });
+    if (res.ok) refreshAttachments();
+  }
+
+  async function download(attachment: TxAttachment) {
+    try {
+      await downloadFile(`/transactions/${tx.id}/attachments/${attachment.id}`);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Download failed");
+    }
+  }
+
+  const input = {
+    width: "100%",
+    boxSizing: "border-box" as const,
+    padding: "8px 10px",
+    borderRadius: 8,
+    border: `1px solid ${theme.border}`,
+    fontSize: 14,
+    background: theme.inputBg,
+    color: theme.text,
+  };
+
+  const label = { display: "block", fontSize: 12, fontWeight: 600, color: theme.textMuted, margin: "16px 0 6px" };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: 380,
+        maxWidth: "100%",
+        boxSizing: "border-box",
+        padding: 24,
+        overflowY: "auto",
+        background: theme.card,
+        color: theme.text,
+        boxShadow: "-8px 0 24px rgba(0,0,0,0.25)",
+        zIndex: 10,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", gap: 8 }}>
+        <div>
+          <div style={{ fontSize: 18, fontWeight: 700 }}>{tx.merchant || tx.name}</div>
+          {tx.merchant && tx.merchant !== tx.name && <div style={{ fontSize: 12, color: theme.textMuted, marginTop: 2 }}>{tx.name}</div>}
+          <div style={{ fontSize: 13, color: theme.textMuted, marginTop: 4 }}>
+            {tx.date}
+            {tx.account ? ` · ${tx.account}` : ""} · {tx.category?.trim() ? tx.category : "Uncategorized"}
+          </div>
+        </div>
+        <button onClick={onClose} title="Close" style={{ background: "none", border: "none", cursor: "pointer", color: theme.textMuted, fontSize: 18 }}>
+          ✕
+        </button>
+      </div>
+      <div style={{ fontSize: 24, fontWeight: 700, marginTop: 12, color: tx.amount < 0 ? "#ef4444" : "#10b981" }}>{money(tx.amount)}</div>
+
+      <label style={label} htmlFor="drawer-tags">
+        TAGS
+      </label>
+      <input
+        id="drawer-tags"
+        list="transaction-tags"
+        placeholder="reimbursable, vacation-2026"
+        value={draft.tags}
+        onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+        style={input}
+      />
+      <datalist id="transaction-tags">
+        {tags.map((t) => (
+          <option key={t} value={t} />
+        ))}
+      </datalist>
+
+      <label style={label} htmlFor="drawer-note">
+        NOTE
+      </label>
+      <textarea
+        id="drawer-note"
+        rows={4}
+        value={draft.note}
+        onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+        style={{ ...input, resize: "vertical", fontFamily: "inherit" }}
+      />
+      <button onClick={save} style={{ marginTop: 8 }}>
+        Save tags & note
+      </button>
+
+      <div style={label}>ATTACHMENTS</div>
+      {attachments.length === 0 && <div style={{ fontSize: 13, color: theme.textMuted }}>No receipts yet</div>}
+      {attachments.map((a) => (
+        <div key={a.id} style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13, marginTop: 4 }}>
+          <span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={a.fileName}>
+            📎 {a.fileName}
+          </span>
+          <span style={{ color: theme.textMuted }}>{fileSize(a.size)}</span>
+          <button onClick={() => download(a)} title="Download">
+            ⬇
+          </button>
+          <button onClick={() => remove(a)} title="Remove">
+            ✕
+          </button>
+        </div>
+      ))}
+      <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8 }}>
+        <input type="file" accept="image/*,application/pdf" onChange={(e) => setFile(e.target.files?.[0] ?? null)} style={{ flex: 1, fontSize: 13 }} />
+        <button onClick={upload} disabled={!file}>
+          Attach
+        </button>
+      </div>
+
+      {msg && <div style={{ marginTop: 12, fontSize: 13, whiteSpace: "pre-wrap" }}>{msg}</div>}
+    </div>
+  );
+}
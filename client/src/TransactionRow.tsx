@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { apiFetch, errorMessage } from "./api";
+import { money, parseMoneyInput } from "./format";
+import { SplitEditor } from "./SplitEditor";
+import type { Theme } from "./theme";
+import type { Tx } from "./types";
+
+const cell = { padding: "12px 8px", fontSize: 14 };
+
+/**
+ * One row of the transactions table; "Edit" swaps the cells for inputs and
+ * PATCHes on save, "Split" opens the split editor underneath, and the name
+ * opens the details drawer (tags, note, attachments).
+ */
+export function TransactionRow({
+  tx,
+  theme,
+  onSaved,
+  onOpen,
+}: {
+  tx: Tx;
+  theme: Theme;
+  onSaved: () => void;
+  onOpen: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [splitting, setSplitting] = useState(false);
+  const [draft, setDraft] = useState({ date: "", name: "", category: "", amount: "" });
+  const [error, setError] = useState("");
+
+  const category = tx.category?.trim() ? tx.category : "Uncategorized";
+
+  const input = {
+    width: "100%",
+    boxSizing: "border-box" as const,
+    padding: "6px 8px",
+    borderRadius: 6,
+    border: `1px solid ${theme.border}`,
+    fontSize: 13,
+    background: theme.inputBg,
+    color: theme.text,
+  };
+
+  function startEditing() {
+    setDraft({ date: tx.date, name: tx.name, category, amount: String(tx.amount) });
+    setError("");
+    setEditing(true);
+  }
+
+  async function save() {
+    const amount = parseMoneyInput(draft.amount);
+    if (Number.isNaN(amount)) {
+      setError("Invalid amount");
+      return;
+    }
+
+    // Only send what changed, so an untouched category isn't recorded as a correction.
+    const patch: Record<string, string | number> = {};
+    if (draft.date !== tx.date) patch.date = draft.date;
+    if (draft.name.trim() !== tx.name) patch.name = draft.name.trim();
+    if (draft.category.trim() !== category) patch.category = draft.category.trim();
+    if (amount !== tx.amount) patch.amount = amount;
+
+    if (Object.keys(patch).length > 0) {
+      const res = await apiFetch(`/transactions/${tx.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(errorMessage(data, "Save failed"));
+        return;
+      }
+      onSaved();
+    }
+    setEditing(false);
+  }
+
+  async function unlinkTransfer() {
+    const res = await apiFetch(`/transactions/${tx.id}/transfer`, { method: "DELETE" });
+    if (res.ok) onSaved();
+  }
+
+  const actions = (
+    <td style={{ ...cell, textAlign: "right", whiteSpace: "nowrap" }}>
+      {editing ? (
+        <>
+          <button onClick={save}>Save</button>
+          <button style={{ marginLeft: 4 }} onClick={() => setEditing(false)}>
+            Cancel
+          </button>
+          {error && <div style={{ color: "#ef4444", fontSize: 12, whiteSpace: "pre-wrap" }}>{error}</div>}
+        </>
+      ) : (
+        <>
+          {tx.transferId && (
+            <button
+              onClick={unlinkTransfer}
+              title="Not a transfer: count it as income or spending again"
+              style={{ background: "none", border: "none", cursor: "pointer", color: theme.textMuted }}
+            >
+              ↔
+            </button>
+          )}
+          {!tx.transferId && (
+            <button
+              onClick={() => setSplitting(!splitting)}
+              title="Split across categories"
+              style={{ background: "none", border: "none", cursor: "pointer", color: theme.textMuted }}
+            >
+              ✂️
+            </button>
+          )}
+          <button onClick={startEditing} title="Edit" style={{ background: "none", border: "none", cursor: "pointer", color: theme.textMuted }}>
+            ✏️
+          </button>
+        </>
+      )}
+    </td>
+  );
+
+  if (editing) {
+    return (
+      <tr style={{ borderBottom: `1px solid ${theme.tableBorder}` }}>
+        <td style={cell}>
+          <input type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} style={input} />
+        </td>
+        <td style={cell}>
+          <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} style={input} />
+        </td>
+        <td style={cell}>
+          <input
+            list="transaction-categories"
+            value={draft.category}
+            onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+            style={input}
+          />
+        </td>
+        <td style={cell}>
+          <input
+            inputMode="decimal"
+            value={draft.amount}
+            onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+            style={{ ...input, textAlign: "right" }}
+          />
+        </td>
+        {actions}
+      </tr>
+    );
+  }
+
+  const badge = {
+    padding: "4px 10px",
+    borderRadius: 6,
+    background: theme.categoryBg,
+    fontSize: 12,
+    fontWeight: 600,
+    color: theme.text,
+  };
+
+  return (
+    <>
+      <tr style={{ borderBottom: `1px solid ${theme.tableBorder}` }}>
+        <td style={{ ...cell, color: theme.textMuted }}>{tx.date}</td>
+        <td style={{ ...cell, fontWeight: 500, color: theme.text }}>
+          <span onClick={onOpen} title="Details, tags, note and receipts" style={{ cursor: "pointer" }}>
+            {tx.merchant || tx.name}
+            {tx.note ? " 📝" : ""}
+          </span>
+          {tx.merchant && tx.merchant !== tx.name && (
+            <div title="As it appears on the statement" style={{ fontSize: 11, fontWeight: 400, color: theme.textMuted }}>
+              {tx.name}
+            </div>
+          )}
+          {tx.account && <div style={{ fontSize: 11, fontWeight: 400, color: theme.textMuted }}>{tx.account}</div>}
+          {tx.tags && tx.tags.length > 0 && (
+            <div style={{ display: "flex", gap: 4, flexWrap: "wrap", marginTop: 4 }}>
+              {tx.tags.map((t) => (
+                <span key={t} style={{ fontSize: 11, fontWeight: 400, color: theme.textMuted }}>
+                  #{t}
+                </span>
+              ))}
+            </div>
+          )}
+        </td>
+        <td style={cell}>
+          {tx.splits ? (
+            <>
+              <span onDoubleClick={() => setSplitting(true)} style={badge}>
+                Split ({tx.splits.length})
+              </span>
+              {tx.splits.map((s, i) => (
+                <div key={i} title={s.note || undefined} style={{ fontSize: 11, marginTop: 4, color: theme.textMuted }}>
+                  {s.category}: {money(s.amount)}
+                </div>
+              ))}
+            </>
+          ) : (
+            <span
+              onDoubleClick={startEditing}
+              title={
+                tx.categorySource === "learned" && tx.categoryConfidence != null
+                  ? `Suggested from your corrections (${Math.round(tx.categoryConfidence * 100)}% confident)`
+                  : tx.categorySource === "merchant"
+                    ? `From the merchant directory (${tx.merchant})`
+                    : undefined
+              }
+              style={badge}
+            >
+              {category}
+              {tx.categorySource === "learned" ? " ✨" : ""}
+            </span>
+          )}
+        </td>
+        <td
+          style={{
+            ...cell,
+            fontWeight: 600,
+            textAlign: "right",
+            color: tx.amount < 0 ? "#ef4444" : "#10b981",
+          }}
+        >
+          {money(tx.amount)}
+        </td>
+        {actions}
+      </tr>
+      {splitting && (
+        <tr style={{ borderBottom: `1px solid ${theme.tableBorder}` }}>
+          <td colSpan={5} style={cell}>
+            <SplitEditor tx={tx} theme={theme} onSaved={onSaved} onClose={() => setSplitting(false)} />
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
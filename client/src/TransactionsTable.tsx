@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { apiFetch, errorMessage } from "./api";
+import { ExportButtons } from "./ExportButtons";
+import { parseMoneyInput } from "./format";
+import type { Theme } from "./theme";
+import { TransactionDrawer } from "./TransactionDrawer";
+import { TransactionRow } from "./TransactionRow";
+import type { Tx } from "./types";
+
+type SortKey = "date" | "amount" | "name";
+
+type Listing = {
+  q: string;
+  category: string; // "" = all
+  type: "" | "income" | "expense";
+  minAmount: string;
+  maxAmount: string;
+  sort: SortKey;
+  order: "asc" | "desc";
+};
+
+type Page = { items: Tx[]; total: number; offset: number; limit: number };
+
+const PAGE_SIZE = 50;
+
+// Dates and amounts read newest/largest first, names A–Z.
+const DEFAULT_ORDER: Record<SortKey, Listing["order"]> = { date: "desc", amount: "desc", name: "asc" };
+
+const EMPTY: Listing = { q: "", category: "", type: "", minAmount: "", maxAmount: "", sort: "date", order: "desc" };
+
+// The table's own filters, which the downloads share; paging and sort come on top.
+function listingParams(l: Listing) {
+  const params = new URLSearchParams();
+  if (l.q.trim()) params.set("q", l.q.trim());
+  if (l.category) params.set("category", l.category);
+  if (l.type) params.set("type", l.type);
+  const min = parseMoneyInput(l.minAmount);
+  const max = parseMoneyInput(l.maxAmount);
+  if (!Number.isNaN(min)) params.set("minAmount", String(min));
+  if (!Number.isNaN(max)) params.set("maxAmount", String(max));
+  return params;
+}
+
+/**
+ * The transactions for the selected period, searched, sorted and paged on the
+ * server. `revision` changes whenever the data does, so the page reloads.
+ */
+export function TransactionsTable({
+  query,
+  categories,
+  tags,
+  revision,
+  theme,
+  onChanged,
+}: {
+  query: string;
+  categories: string[];
+  tags: string[];
+  revision: number;
+  theme: Theme;
+  onChanged: () => void;
+}) {
+  const [listing, setListing] = useState<Listing>(EMPTY);
+  // The offset only applies to the listing and period it was paged in.
+  const [paging, setPaging] = useState({ key: "", offset: 0 });
+  const [page, setPage] = useState<Page | null>(null);
+  const [error, setError] = useState("");
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const filterParams = listingParams(listing);
+  const key = `${query}&${filterParams}`;
+  const offset = paging.key === key ? paging.offset : 0;
+
+  const pageParams = new URLSearchParams(query);
+  for (const [k, v] of filterParams) pageParams.set(k, v);
+  pageParams.set("sort", listing.sort);
+  pageParams.set("order", listing.order);
+  pageParams.set("offset", String(offset));
+  pageParams.set("limit", String(PAGE_SIZE));
+  const pageQuery = pageParams.toString();
+
+  // Debounced so typing in the search box doesn't fire a request per keystroke.
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const res = await apiFetch(`/transactions?${pageQuery}`);
+      const data = await res.json();
+      if (cancelled) return;
+      if (res.ok) {
+        setPage(data);
+        setError("");
+      } else {
+        setError(errorMessage(data, "Couldn't load transactions"));
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [pageQuery, revision]);
+
+  function change(patch: Partial<Listing>) {
+    setListing({ ...listing, ...patch });
+  }
+
+  function sortBy(sort: SortKey) {
+    if (listing.sort === sort) change({ order: listing.order === "asc" ? "desc" : "asc" });
+    else change({ sort, order: DEFAULT_ORDER[sort] });
+  }
+
+  function goTo(next: number) {
+    setPaging({ key, offset: Math.max(0, next) });
+  }
+
+  const control = {
+    padding: "8px 12px",
+    borderRadius: 8,
+    border: `1px solid ${theme.border}`,
+    fontSize: 14,
+    background: theme.inputBg,
+    color: theme.text,
+  };
+
+  const header = (align: "left" | "right") => ({
+    textAlign: align,
+    padding: "12px 8px",
+    fontSize: 12,
+    fontWeight: 600,
+    color: theme.textMuted,
+  });
+
+  const sortHeader = (label: string, sort: SortKey, align: "left" | "right") => (
+    <th
+      style={{ ...header(align), cursor: "pointer", userSelect: "none" }}
+      onClick={() => sortBy(sort)}
+      title={`Sort by ${sort}`}
+      aria-sort={listing.sort === sort ? (listing.order === "asc" ? "ascending" : "descending") : "none"}
+    >
+      {label}
+      {listing.sort === sort ? (listing.order === "asc" ? " ▲" : " ▼") : ""}
+    </th>
+  );
+
+  const items = page?.items ?? [];
+  const total = page?.total ?? 0;
+  const first = page && total > 0 ? page.offset + 1 : 0;
+  const last = page ? page.offset + items.length : 0;
+  // Looked up on every render so the drawer shows the reloaded transaction after a save.
+  const open = items.find((t) => t.id === openId);
+
+  return (
+    <>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
+        <h2 style={{ margin: 0, fontSize: 20, fontWeight: 700, color: theme.text }}>Transactions</h2>
+        <ExportButtons query={query} filters={filterParams} theme={theme} />
+      </div>
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+        <input
+          type="search"
+          placeholder="Search names…"
+          value={listing.q}
+          onChange={(e) => change({ q: e.target.value })}
+          style={{ ...control, flex: 1, minWidth: 160 }}
+        />
+        <select value={listing.category} onChange={(e) => change({ category: e.target.value })} style={{ ...control, cursor: "pointer" }}>
+          <option value="">All Categories</option>
+          {categories.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <select
+          value={listing.type}
+          onChange={(e) => change({ type: e.target.value as Listing["type"] })}
+          style={{ ...control, cursor: "pointer" }}
+        >
+          <option value="">Income & spending</option>
+          <option value="income">Income</option>
+          <option value="expense">Spending</option>
+        </select>
+        <input
+          inputMode="decimal"
+          placeholder="Min"
+          title="Smallest amount, either sign"
+          value={listing.minAmount}
+          onChange={(e) => change({ minAmount: e.target.value })}
+          style={{ ...control, width: 70 }}
+        />
+        <input
+          inputMode="decimal"
+          placeholder="Max"
+          title="Largest amount, either sign"
+          value={listing.maxAmount}
+          onChange={(e) => change({ maxAmount: e.target.value })}
+          style={{ ...control, width: 70 }}
+        />
+      </div>
+
+      {error && <div style={{ color: "#ef4444", fontSize: 13, marginBottom: 8, whiteSpace: "pre-wrap" }}>{error}</div>}
+
+      <div style={{ maxHeight: 500, overflowY: "auto" }}>
+        <datalist id="transaction-categories">
+          {categories.map((c) => (
+            <option key={c} value={c} />
+          ))}
+        </datalist>
+        {items.length === 0 ? (
+          <div style={{ color: theme.textMuted, fontSize: 14, textAlign: "center", padding: 40 }}>No transactions found</div>
+        ) : (
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead style={{ position: "sticky", top: 0, background: theme.card }}>
+              <tr style={{ borderBottom: `2px solid ${theme.border}` }}>
+                {sortHeader("DATE", "date", "left")}
+                {sortHeader("NAME", "name", "left")}
+                <th style={header("left")}>CATEGORY</th>
+                {sortHeader("AMOUNT", "amount", "right")}
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((t) => (
+                <TransactionRow key={t.id} tx={t} theme={theme} onSaved={onChanged} onOpen={() => setOpenId(t.id)} />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div style={{ display: "flex", justifyContent: "flex-end", gap: 8, alignItems: "center", marginTop: 12 }}>
+        <span style={{ fontSize: 13, color: theme.textMuted }}>
+          {first}–{last} of {total}
+        </span>
+        <button onClick={() => goTo(offset - PAGE_SIZE)} disabled={offset === 0} style={{ ...control, cursor: "pointer" }}>
+          ‹ Prev
+        </button>
+        <button onClick={() => goTo(offset + PAGE_SIZE)} disabled={last >= total} style={{ ...control, cursor: "pointer" }}>
+          Next ›
+        </button>
+      </div>
+
+      {open && (
+        <TransactionDrawer key={open.id} tx={open} tags={tags} theme={theme} onSaved={onChanged} onClose={() => setOpenId(null)} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+import { money } from "./format";
+import type { Theme } from "./theme";
+
+type Totals = { income: number; expenses: number; net: number };
+
+export type TrendBucket = Totals & {
+  period: string;
+  start: string;
+  end: string;
+  byCategory: Record<string, number>;
+  average: Totals;
+  change: { [K in keyof Totals]: number | null };
+};
+
+export type TrendInterval = "week" | "month" | "year";
+
+const WIDTH = 720;
+const HEIGHT = 220;
+const PAD = { top: 12, right: 8, bottom: 28, left: 8 };
+
+function changeLabel(change: number | null) {
+  if (change === null) return "—";
+  return `${change > 0 ? "+" : ""}${(change * 100).toFixed(0)}%`;
+}
+
+/** Income and expense bars per period, with the net as a line and the rolling average of expenses dashed. */
+export function TrendChart({ buckets, interval, theme }: { buckets: TrendBucket[]; interval: TrendInterval; theme: Theme }) {
+  if (buckets.length === 0) {
+    return <div style={{ color: theme.textMuted, fontSize: 14 }}>No transactions in this period</div>;
+  }
+
+  const max = Math.max(1, ...buckets.flatMap((b) => [b.income, b.expenses, Math.abs(b.net)]));
+  const min = Math.min(0, ...buckets.map((b) => b.net));
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const y = (v: number) => PAD.top + ((max - v) / (max - min)) * plotH;
+  const slot = (WIDTH - PAD.left - PAD.right) / buckets.length;
+  const barW = Math.max(2, slot * 0.35);
+  const x = (i: number) => PAD.left + slot * i + slot / 2;
+  const labelEvery = Math.ceil(buckets.length / 12);
+
+  const line = (values: number[]) => values.map((v, i) => `${i === 0 ? "M" : "L"}${x(i)},${y(v)}`).join(" ");
+  const latest = buckets[buckets.length - 1]!;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ width: "100%", height: "auto", display: "block" }}>
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke={theme.border} />
+        {buckets.map((b, i) => (
+          <g key={b.start}>
+            <title>
+              {`${b.period}\nIncome ${money(b.income)}\nExpenses ${money(b.expenses)}\nNet ${money(b.net)}`}
+            </title>
+            <rect x={x(i) - barW} y={y(b.income)} width={barW} height={y(0) - y(b.income)} fill="#10b981" rx={2} />
+            <rect x={x(i)} y={y(b.expenses)} width={barW} height={y(0) - y(b.expenses)} fill="#ef4444" rx={2} />
+            {i % labelEvery === 0 && (
+              <text x={x(i)} y={HEIGHT - 8} textAnchor="middle" fontSize={11} fill={theme.textMuted}>
+                {interval === "week" ? b.period.slice(5) : b.period}
+              </text>
+            )}
+          </g>
+        ))}
+        <path d={line(buckets.map((b) => b.average.expenses))} fill="none" stroke="#f59e0b" strokeWidth={2} strokeDasharray="5 4" />
+        <path d={line(buckets.map((b) => b.net))} fill="none" stroke="#667eea" strokeWidth={2} />
+      </svg>
+      <div style={{ display: "flex", gap: 20, flexWrap: "wrap", marginTop: 12, fontSize: 13, color: theme.textMuted }}>
+        <span><span style={{ color: "#10b981" }}>■</span> Income</span>
+        <span><span style={{ color: "#ef4444" }}>■</span> Expenses</span>
+        <span><span style={{ color: "#667eea" }}>━</span> Net</span>
+        <span><span style={{ color: "#f59e0b" }}>┅</span> Average expenses</span>
+        <span style={{ marginLeft: "auto", color: theme.text }}>
+          {latest.period}: income {changeLabel(latest.change.income)}, expenses {changeLabel(latest.change.expenses)} vs. previous {interval}
+        </span>
+      </div>
+    </div>
+  );
+}
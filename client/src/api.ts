@@ -0,0 +1,139 @@
+export const API_URL = "http://localhost:3001";
+
+/* =========================
+   Session
+========================= */
+
+export type Session = {
+  email: string;
+  accessToken: string;
+  refreshToken: string;
+};
+
+const SESSION_KEY = "finance-robot.session";
+
+export function loadSession(): Session | null {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    return raw ? (JSON.parse(raw) as Session) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: Session | null) {
+  if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_KEY);
+}
+
+/** Exchanges credentials for tokens; `mode` picks the register or login route. */
+export async function authenticate(mode: "login" | "register", email: string, password: string) {
+  const res = await fetch(`${API_URL}/auth/${mode}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, password }),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(errorMessage(data, "Authentication failed"));
+
+  const session: Session = {
+    email: data.user.email,
+    accessToken: data.accessToken,
+    refreshToken: data.refreshToken,
+  };
+  saveSession(session);
+  return session;
+}
+
+async function refreshSession(session: Session): Promise<Session | null> {
+  const res = await fetch(`${API_URL}/auth/refresh`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken: session.refreshToken }),
+  });
+  if (!res.ok) return null;
+
+  const data = await res.json();
+  return { ...session, accessToken: data.accessToken, refreshToken: data.refreshToken };
+}
+
+// Refresh tokens are single-use, so requests that get a 401 at the same time
+// share one refresh instead of racing each other with the same token.
+let refreshing: Promise<Session | null> | null = null;
+
+function refreshOnce(session: Session) {
+  refreshing ??= refreshSession(session)
+    .then((refreshed) => {
+      saveSession(refreshed);
+      return refreshed;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+/* =========================
+   Errors
+========================= */
+
+// The server answers every error with { error, detail?, fields? }; `fields`
+// maps each invalid input (e.g. "splits.1.amount") to its message.
+export type ApiError = { error?: string; detail?: string; fields?: Record<string, string> };
+
+/** One line per invalid field when the server names them, else its explanation. */
+export function errorMessage(data: ApiError, fallback: string) {
+  const fields = Object.entries(data.fields ?? {});
+  if (fields.length > 0) return fields.map(([field, message]) => `${field}: ${message}`).join("\n");
+  return data.detail || data.error || fallback;
+}
+
+/* =========================
+   Fetch
+========================= */
+
+// Called when the session can't be refreshed so the app can show the login screen.
+let onSignedOut: () => void = () => {};
+
+export function setSignedOutHandler(handler: () => void) {
+  onSignedOut = handler;
+}
+
+/** `fetch` against the API with the bearer token, refreshing once on a 401. */
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const send = (s: Session | null) =>
+    fetch(`${API_URL}${path}`, {
+      ...init,
+      headers: {
+        ...init.headers,
+        ...(s ? { Authorization: `Bearer ${s.accessToken}` } : {}),
+      },
+    });
+
+  const session = loadSession();
+  const res = await send(session);
+  if (res.status !== 401 || !session) return res;
+
+  // A request sent with the old token may come back after the refresh is done.
+  const current = loadSession();
+  const refreshed = current && current.accessToken !== session.accessToken ? current : await refreshOnce(session);
+  if (!refreshed) {
+    onSignedOut();
+    return res;
+  }
+  return send(refreshed);
+}
+
+/** Fetches an authenticated download and saves it under the server's file name. */
+export async function downloadFile(path: string) {
+  const res = await apiFetch(path);
+  if (!res.ok) throw new Error("Download failed");
+
+  const name = /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") ?? "")?.[1] ?? "download";
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,32 @@
+export type Filters = {
+  period: "all" | "month" | "custom";
+  month: string; // YYYY-MM when period is "month"
+  from: string; // YYYY-MM-DD when period is "custom"
+  to: string;
+  account: string; // "" = all accounts
+  tag: string; // "" = any tags
+};
+
+export const ALL_TIME: Filters = { period: "all", month: "", from: "", to: "", account: "", tag: "" };
+
+export type Facets = { months: string[]; accounts: string[]; categories: string[]; tags: string[] };
+
+/** Query string (with leading "?", or "") understood by GET /transactions and /insights/*. */
+export function filterQuery(f: Filters) {
+  const params = new URLSearchParams();
+  if (f.period === "month" && f.month) params.set("month", f.month);
+  if (f.period === "custom") {
+    if (f.from) params.set("from", f.from);
+    if (f.to) params.set("to", f.to);
+  }
+  if (f.account) params.set("account", f.account);
+  if (f.tag) params.set("tag", f.tag);
+
+  const qs = params.toString();
+  return qs ? `?${qs}` : "";
+}
+
+export function monthLabel(month: string) {
+  const [y, m] = month.split("-").map(Number);
+  return new Date(y!, m! - 1, 1).toLocaleDateString(undefined, { month: "long", year: "numeric" });
+}
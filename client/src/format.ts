@@ -0,0 +1,16 @@
+let currencyFormat = new Intl.NumberFormat(undefined, { style: "currency", currency: "USD" });
+
+/** Switches money() to the user's currency and locale from their settings. */
+export function setMoneyFormat(currency: string, locale: string) {
+  currencyFormat = new Intl.NumberFormat(locale, { style: "currency", currency });
+}
+
+export function money(n: number) {
+  return currencyFormat.format(n);
+}
+
+export function parseMoneyInput(v: string) {
+  const cleaned = v.replace(/[^0-9.-]/g, "");
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : NaN;
+}
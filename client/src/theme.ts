@@ -0,0 +1,20 @@
+export function makeTheme(isDark: boolean) {
+  return {
+    bg: isDark ? "#1e293b" : "#f8fafc",
+    card: isDark ? "#334155" : "white",
+    text: isDark ? "#f1f5f9" : "#1e293b",
+    textMuted: isDark ? "#94a3b8" : "#64748b",
+    headerText: isDark ? "#f1f5f9" : "#1e293b",
+    headerSubtext: isDark ? "#cbd5e1" : "#64748b",
+    buttonBg: isDark ? "#475569" : "#e2e8f0",
+    buttonBgHover: isDark ? "#64748b" : "#cbd5e1",
+    buttonText: isDark ? "#f1f5f9" : "#1e293b",
+    border: isDark ? "#475569" : "#e2e8f0",
+    inputBg: isDark ? "#475569" : "#ffffff",
+    tableBorder: isDark ? "#475569" : "#f1f5f9",
+    categoryBg: isDark ? "#475569" : "#f1f5f9",
+    barBg: isDark ? "#475569" : "#f1f5f9",
+  };
+}
+
+export type Theme = ReturnType<typeof makeTheme>;
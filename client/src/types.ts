@@ -0,0 +1,27 @@
+export type Tx = {
+  id: string;
+  date: string;
+  name: string; // the raw bank descriptor
+  merchant?: string; // its cleaned-up or directory name
+  amount: number;
+  category?: string;
+  categorySource?: "rule" | "bank" | "learned" | "manual" | "merchant";
+  categoryConfidence?: number | null;
+  account?: string;
+  transferId?: string | null; // set on both legs of a transfer between accounts
+  splits?: TxSplit[] | null; // parts that add up to `amount`, each with its own category
+  tags?: string[];
+  note?: string;
+};
+
+export type TxSplit = { amount: number; category: string; note: string };
+
+// A receipt or other file kept with a transaction.
+export type TxAttachment = {
+  id: string;
+  transactionId: string;
+  fileName: string;
+  mimeType: string;
+  size: number; // bytes
+  createdAt: string;
+};
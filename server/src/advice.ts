@@ -0,0 +1,300 @@
+import {
+  byMerchant,
+  CATEGORY_SPIKE_DEFAULTS,
+  categorySpikes,
+  NEW_MERCHANT_DEFAULTS,
+  newMerchants,
+  possibleDuplicates,
+  UNUSUAL_AMOUNT_DEFAULTS,
+  unusualAmounts,
+  type Anomaly,
+} from "./anomalies";
+import type { BudgetStatus } from "./budgets";
+import { FORECAST_MAX_DAYS, type Forecast } from "./forecast";
+import type { Money } from "./settings";
+import type { AdviceDismissal, AdviceSetting, Transaction } from "./types";
+
+/* =========================
+   Advice Items
+========================= */
+
+export type AdviceSeverity = "info" | "warn" | "urgent";
+
+export type AdviceItem = {
+  id: string; // stable across refreshes, so the item can be dismissed
+  ruleId: string;
+  title: string;
+  detail: string;
+  explanation: string; // the numbers and threshold behind the item
+  severity: AdviceSeverity;
+  transactionIds?: string[]; // the transactions an item is about, when it's about specific ones
+};
+
+// Everything a rule may look at. `period` is the filtered transactions and
+// `history` all of the user's (same account filter), transfers excluded.
+export type AdviceContext = {
+  period: Transaction[];
+  history: Transaction[];
+  periodKey: string; // identifies the filtered period in item ids
+  income: number;
+  incomeSource: "actual" | "expected"; // expected: from the user's settings
+  expenses: number;
+  net: number;
+  savingsRate: number;
+  months: number; // calendar months the period spans, at least 1
+  budgets: BudgetStatus[];
+  forecast: Forecast; // FORECAST_MAX_DAYS ahead
+  money: Money; // formats amounts in the user's currency and locale
+};
+
+type Thresholds = Record<string, number>;
+
+type RuleItem = Omit<AdviceItem, "ruleId">;
+
+export type AdviceRule<T extends Thresholds = Thresholds> = {
+  id: string;
+  name: string;
+  description: string;
+  defaults: T;
+  // Fallback rules only run when nothing else has advice to give.
+  fallback?: boolean;
+  evaluate: (ctx: AdviceContext, thresholds: T) => RuleItem[];
+};
+
+/* =========================
+   Rules
+========================= */
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+const incomeLabel = (ctx: AdviceContext) => (ctx.incomeSource === "expected" ? "Expected income" : "Income");
+
+function fromAnomalies(anomalies: Anomaly[], key: (a: Anomaly) => string, explanation: string) {
+  return anomalies.map((a) => {
+    const { kind, month: _month, category: _category, ...item } = a;
+    return { ...item, id: `${kind}:${key(a)}`, explanation };
+  });
+}
+
+// Registering a rule: give it a stable id and defaults for every threshold it
+// reads. Thresholds are user-configurable by name, so don't rename them.
+// `evaluate` is type-checked against `defaults`; layering whatever thresholds
+// it's given over the defaults is what lets the registry take any rule.
+function defineRule<T extends Thresholds>(rule: AdviceRule<T>): AdviceRule {
+  return { ...rule, evaluate: (ctx, thresholds) => rule.evaluate(ctx, { ...rule.defaults, ...thresholds }) };
+}
+
+export const ADVICE_RULES: AdviceRule[] = [
+  defineRule({
+    id: "negative-cash-flow",
+    name: "Spending exceeds income",
+    description: "Net cash flow for the period is below zero.",
+    defaults: { minDeficit: 0 },
+    evaluate: (ctx, t) =>
+      ctx.net < -t.minDeficit
+        ? [
+            {
+              id: `negative-cash-flow:${ctx.periodKey}`,
+              title: "Spending exceeds income",
+              detail: `You're down ${ctx.money(Math.abs(ctx.net))}. Start by cutting 1–2 categories.`,
+              explanation: `${incomeLabel(ctx)} ${ctx.money(ctx.income)} − expenses ${ctx.money(ctx.expenses)} = ${ctx.money(ctx.net)}, more than ${ctx.money(t.minDeficit)} below zero.`,
+              severity: "urgent",
+            },
+          ]
+        : [],
+  }),
+
+  defineRule({
+    id: "low-savings-rate",
+    name: "Low savings rate",
+    description: "Less than the target share of income is left after spending.",
+    defaults: { minSavingsRate: 0.1 },
+    evaluate: (ctx, t) =>
+      ctx.income > 0 && ctx.savingsRate < t.minSavingsRate
+        ? [
+            {
+              id: `low-savings-rate:${ctx.periodKey}`,
+              title: "Low savings rate",
+              detail: `Savings rate is ${pct(ctx.savingsRate)}. Try automating ${pct(t.minSavingsRate)}.`,
+              explanation: `Net ${ctx.money(ctx.net)} ÷ ${incomeLabel(ctx).toLowerCase()} ${ctx.money(ctx.income)} = ${pct(ctx.savingsRate)}, below the ${pct(t.minSavingsRate)} target.`,
+              severity: "warn",
+            },
+          ]
+        : [],
+  }),
+
+  defineRule({
+    id: "budgets",
+    name: "Budget alerts",
+    description: "A category is over its budget, or on pace to go over by month end.",
+    defaults: { paceTolerance: 0 },
+    evaluate: (ctx, t) =>
+      ctx.budgets.flatMap((b): RuleItem[] => {
+        if (b.available <= 0 && b.actual === 0) return [];
+        const id = `budgets:${b.category}:${b.month}`;
+
+        if (b.actual > b.available) {
+          return [
+            {
+              id: `${id}:over`,
+              title: `Over budget: ${b.category}`,
+              detail: `Spent ${ctx.money(b.actual)} of ${ctx.money(b.available)} in ${b.month}, ${ctx.money(b.actual - b.available)} over.`,
+              explanation: `Budget ${ctx.money(b.budgeted)} + carried over ${ctx.money(b.carriedOver)} = ${ctx.money(b.available)} available; ${ctx.money(b.actual)} spent.`,
+              severity: "urgent",
+            },
+          ];
+        }
+        if (b.projected > b.available * (1 + t.paceTolerance)) {
+          return [
+            {
+              id: `${id}:pace`,
+              title: `${b.category} is on pace to exceed its budget`,
+              detail: `${ctx.money(b.actual)} spent so far; at this pace you'll reach ${ctx.money(b.projected)} of ${ctx.money(b.available)} by month end.`,
+              explanation: `Projected month-end spend ${ctx.money(b.projected)} is more than ${pct(t.paceTolerance)} over the ${ctx.money(b.available)} available.`,
+              severity: "warn",
+            },
+          ];
+        }
+        return [];
+      }),
+  }),
+
+  defineRule({
+    id: "low-balance",
+    name: "Low projected balance",
+    description: "The cash-flow forecast dips below your balance floor.",
+    defaults: { floor: 0, horizonDays: 30 },
+    evaluate: (ctx, t) => {
+      const horizon = Math.min(t.horizonDays, FORECAST_MAX_DAYS);
+      const points = ctx.forecast.points.slice(0, horizon);
+      const dip = points.find((p) => p.balance < t.floor);
+      if (!dip) return [];
+
+      const lowest = points.reduce((min, p) => (p.balance < min.balance ? p : min));
+      const upcoming = ctx.forecast.events.filter((e) => e.date <= points[points.length - 1]!.date).length;
+      return [
+        {
+          id: `low-balance:${ctx.forecast.asOf}`,
+          title: `Balance projected to drop below ${ctx.money(t.floor)}`,
+          detail: `Around ${dip.date} your balance is projected at ${ctx.money(dip.balance)}, reaching ${ctx.money(lowest.balance)} by ${lowest.date}.`,
+          explanation: `Starting from ${ctx.money(ctx.forecast.startingBalance)} on ${ctx.forecast.asOf}, with ${upcoming} upcoming recurring items and ${ctx.money(ctx.forecast.discretionaryDaily)}/day of other spending, over the next ${horizon} days.`,
+          severity: lowest.balance < 0 ? "urgent" : "warn",
+        },
+      ];
+    },
+  }),
+
+  defineRule({
+    id: "unusual-amount",
+    name: "Unusually large charges",
+    description: "A charge far above what the same merchant usually costs.",
+    defaults: UNUSUAL_AMOUNT_DEFAULTS,
+    evaluate: (ctx, t) =>
+      fromAnomalies(
+        unusualAmounts(ctx.period, byMerchant(ctx.history), t, ctx.money),
+        (a) => a.transactionIds[0]!,
+        `Flagged when a charge is at least ${t.multiple}× the median of ${t.minHistory}+ earlier charges from the merchant and its robust z-score is above ${t.zScore}.`
+      ),
+  }),
+
+  defineRule({
+    id: "category-spike",
+    name: "Category spikes",
+    description: "A category's monthly spend jumps above its trailing average.",
+    defaults: CATEGORY_SPIKE_DEFAULTS,
+    evaluate: (ctx, t) =>
+      fromAnomalies(
+        categorySpikes(ctx.period, ctx.history, t, ctx.money),
+        (a) => `${a.category}:${a.month}`,
+        `Flagged when a month's spend is at least ${t.multiple}× and ${ctx.money(t.minIncrease)} above the average of the ${t.trailingMonths} months before.`
+      ),
+  }),
+
+  defineRule({
+    id: "new-merchant",
+    name: "Large first-time charges",
+    description: "A large charge from a merchant you haven't paid before.",
+    defaults: NEW_MERCHANT_DEFAULTS,
+    evaluate: (ctx, t) =>
+      fromAnomalies(
+        newMerchants(ctx.period, ctx.history, byMerchant(ctx.history), t, ctx.money),
+        (a) => a.transactionIds[0]!,
+        `Flagged for first charges of ${ctx.money(t.minAmount)} or more, once there are ${t.minHistoryDays} days of history.`
+      ),
+  }),
+
+  defineRule({
+    id: "possible-duplicate",
+    name: "Possible duplicate charges",
+    description: "Charges on the same day with the same merchant, amount and account.",
+    defaults: {},
+    evaluate: (ctx) =>
+      fromAnomalies(
+        possibleDuplicates(ctx.period, ctx.money),
+        (a) => [...a.transactionIds].sort().join(","),
+        "Flagged when two or more charges match on date, merchant, amount and account."
+      ),
+  }),
+
+  defineRule({
+    id: "on-track",
+    name: "On track",
+    description: "Shown when there's nothing else to act on; suggests an emergency fund.",
+    defaults: { emergencyFundMinMonths: 3, emergencyFundMaxMonths: 6 },
+    fallback: true,
+    evaluate: (ctx, t) => {
+      const monthly = ctx.expenses / ctx.months;
+      return [
+        {
+          id: `on-track:${ctx.periodKey}`,
+          title: "You're on track",
+          detail: `Cash flow looks healthy. Next step: build a ${t.emergencyFundMinMonths}–${t.emergencyFundMaxMonths} month emergency fund.`,
+          explanation:
+            monthly > 0
+              ? `At ${ctx.money(monthly)} of spending a month, that's ${ctx.money(monthly * t.emergencyFundMinMonths)}–${ctx.money(monthly * t.emergencyFundMaxMonths)}.`
+              : "No spending in this period to size the fund from.",
+          severity: "info",
+        },
+      ];
+    },
+  }),
+];
+
+/* =========================
+   Evaluation
+========================= */
+
+/** A rule's thresholds with the user's overrides applied; unknown names are ignored. */
+export function resolveThresholds(rule: AdviceRule, setting: AdviceSetting | undefined): Thresholds {
+  const thresholds = { ...rule.defaults };
+  for (const [name, value] of Object.entries(setting?.thresholds ?? {})) {
+    if (name in thresholds) thresholds[name] = value;
+  }
+  return thresholds;
+}
+
+function isDismissed(id: string, dismissals: AdviceDismissal[], today: string) {
+  return dismissals.some((d) => d.adviceId === id && (d.until === null || d.until > today));
+}
+
+/** Runs every enabled rule and drops dismissed items, most severe first. */
+export function evaluateAdvice(
+  ctx: AdviceContext,
+  settings: AdviceSetting[],
+  dismissals: AdviceDismissal[],
+  today = new Date().toISOString().slice(0, 10)
+): AdviceItem[] {
+  const run = (rule: AdviceRule) => {
+    const setting = settings.find((s) => s.ruleId === rule.id);
+    if (setting && !setting.enabled) return [];
+    return rule
+      .evaluate(ctx, resolveThresholds(rule, setting))
+      .map((item) => ({ ...item, ruleId: rule.id }))
+      .filter((item) => !isDismissed(item.id, dismissals, today));
+  };
+
+  const rank: Record<AdviceSeverity, number> = { urgent: 0, warn: 1, info: 2 };
+  const items = ADVICE_RULES.filter((r) => !r.fallback).flatMap(run);
+  const advice = items.length > 0 ? items : ADVICE_RULES.filter((r) => r.fallback).flatMap(run);
+  return advice.sort((a, b) => rank[a.severity] - rank[b.severity]);
+}
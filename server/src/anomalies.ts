@@ -0,0 +1,204 @@
+import { shiftMonth } from "./budgets";
+import { daysBetween } from "./dates";
+import { merchantKey } from "./merchants";
+import { median } from "./recurring";
+import type { Money } from "./settings";
+import { allocate } from "./splits";
+import type { Transaction } from "./types";
+
+/* =========================
+   Thresholds
+========================= */
+
+// Defaults; users can override them per advice rule, see advice.ts.
+
+export const UNUSUAL_AMOUNT_DEFAULTS = {
+  minHistory: 3, // earlier charges a merchant needs before one can look unusual
+  zScore: 3.5, // robust (median/MAD based) z-score above which a charge is an outlier
+  multiple: 2, // ...and the multiple of the usual amount it must also exceed
+  urgentMultiple: 4,
+};
+
+export const CATEGORY_SPIKE_DEFAULTS = {
+  trailingMonths: 3,
+  multiple: 1.5, // of the trailing average
+  urgentMultiple: 2.5,
+  minIncrease: 50, // dollars above the trailing average
+};
+
+export const NEW_MERCHANT_DEFAULTS = {
+  minAmount: 200,
+  minHistoryDays: 30, // history needed before "first time" means something
+};
+
+/* =========================
+   Detection
+========================= */
+
+export type Anomaly = {
+  kind: "unusual-amount" | "category-spike" | "new-merchant" | "possible-duplicate";
+  title: string;
+  detail: string;
+  severity: "warn" | "urgent";
+  transactionIds: string[];
+  // Category spikes only: the month and category that spiked. A split charge's
+  // parent can have neither, so these aren't read off its transactions.
+  month?: string;
+  category?: string;
+};
+
+function groupBy(transactions: Transaction[], key: (t: Transaction) => string) {
+  const groups = new Map<string, Transaction[]>();
+  for (const t of transactions) {
+    const k = key(t);
+    const group = groups.get(k);
+    if (group) group.push(t);
+    else groups.set(k, [t]);
+  }
+  return groups;
+}
+
+/** Transactions grouped by merchantKey(), as the detectors below expect. */
+export function byMerchant(history: Transaction[]) {
+  return groupBy(history, (t) => merchantKey(t.name));
+}
+
+// Charges far above what the same merchant usually costs. Compares against
+// the merchant's earlier charges only, so a new normal isn't flagged forever.
+export function unusualAmounts(
+  period: Transaction[],
+  merchants: Map<string, Transaction[]>,
+  limits: typeof UNUSUAL_AMOUNT_DEFAULTS,
+  money: Money
+): Anomaly[] {
+  const found: Anomaly[] = [];
+
+  for (const t of period) {
+    if (t.amount >= 0) continue;
+    const earlier = (merchants.get(merchantKey(t.name)) ?? [])
+      .filter((o) => o.date < t.date && o.amount < 0)
+      .map((o) => Math.abs(o.amount));
+    if (earlier.length < limits.minHistory) continue;
+
+    const amount = Math.abs(t.amount);
+    const usual = median(earlier);
+    const mad = median(earlier.map((v) => Math.abs(v - usual)));
+    // With identical past charges MAD is 0; the multiple check alone decides.
+    const z = mad === 0 ? Infinity : (amount - usual) / (1.4826 * mad);
+    if (z < limits.zScore || amount < usual * limits.multiple) continue;
+
+    found.push({
+      kind: "unusual-amount",
+      title: `Unusually large charge: ${t.name}`,
+      detail: `${money(amount)} on ${t.date}, about ${(amount / usual).toFixed(1)}× the usual ${money(usual)} over ${earlier.length} earlier charges.`,
+      severity: amount >= usual * limits.urgentMultiple ? "urgent" : "warn",
+      transactionIds: [t.id],
+    });
+  }
+
+  return found;
+}
+
+// Months in the period where a category's spend jumps above its trailing average.
+export function categorySpikes(
+  period: Transaction[],
+  history: Transaction[],
+  limits: typeof CATEGORY_SPIKE_DEFAULTS,
+  money: Money
+): Anomaly[] {
+  const firstMonth = history.reduce((min, t) => (t.date < min ? t.date : min), "9999").slice(0, 7);
+  const spend = groupBy(
+    allocate(history).filter((t) => t.amount < 0),
+    (t) => `${t.date.slice(0, 7)}|${t.category || "Uncategorized"}`
+  );
+  const total = (key: string) => (spend.get(key) ?? []).reduce((s, t) => s - t.amount, 0);
+
+  const found: Anomaly[] = [];
+  const checked = new Set<string>();
+
+  for (const t of allocate(period)) {
+    if (t.amount >= 0) continue;
+    const month = t.date.slice(0, 7);
+    const category = t.category || "Uncategorized";
+    const key = `${month}|${category}`;
+    if (checked.has(key)) continue;
+    checked.add(key);
+
+    // Only months the user has data for count toward the average.
+    const trailing: number[] = [];
+    for (let i = 1; i <= limits.trailingMonths; i++) {
+      const m = shiftMonth(month, -i);
+      if (m >= firstMonth) trailing.push(total(`${m}|${category}`));
+    }
+    if (trailing.length === 0 || trailing.length < limits.trailingMonths) continue;
+
+    const average = trailing.reduce((s, v) => s + v, 0) / trailing.length;
+    const current = total(key);
+    if (current < average * limits.multiple || current - average < limits.minIncrease) continue;
+
+    found.push({
+      kind: "category-spike",
+      title: `${category} spending spiked in ${month}`,
+      detail:
+        average > 0
+          ? `${money(current)} vs. a ${trailing.length}-month average of ${money(average)} (${Math.round((current / average - 1) * 100)}% higher).`
+          : `${money(current)} after nothing in the previous ${trailing.length} months.`,
+      severity: average > 0 && current >= average * limits.urgentMultiple ? "urgent" : "warn",
+      transactionIds: [...new Set(spend.get(key)!.map((s) => s.id))],
+      month,
+      category,
+    });
+  }
+
+  return found;
+}
+
+// Large first-time charges; skipped until there's enough history that
+// "first time" means something.
+export function newMerchants(
+  period: Transaction[],
+  history: Transaction[],
+  merchants: Map<string, Transaction[]>,
+  limits: typeof NEW_MERCHANT_DEFAULTS,
+  money: Money
+): Anomaly[] {
+  const since = history.reduce((min, t) => (t.date < min ? t.date : min), "9999");
+  const found: Anomaly[] = [];
+
+  for (const t of period) {
+    if (t.amount >= 0 || Math.abs(t.amount) < limits.minAmount) continue;
+    if (daysBetween(since, t.date) < limits.minHistoryDays) continue;
+
+    const seenBefore = (merchants.get(merchantKey(t.name)) ?? []).some((o) => o.date < t.date);
+    if (seenBefore) continue;
+
+    found.push({
+      kind: "new-merchant",
+      title: `Large charge from a new merchant: ${t.name}`,
+      detail: `First charge from this merchant: ${money(Math.abs(t.amount))} on ${t.date}.`,
+      severity: "warn",
+      transactionIds: [t.id],
+    });
+  }
+
+  return found;
+}
+
+// Same merchant, amount, account and day. Re-imports are already
+// de-duplicated, so these are separate charges worth a second look.
+export function possibleDuplicates(period: Transaction[], money: Money): Anomaly[] {
+  const groups = groupBy(
+    period.filter((t) => t.amount < 0),
+    (t) => [t.date, merchantKey(t.name), t.amount.toFixed(2), t.accountId ?? t.account].join("|")
+  );
+
+  return [...groups.values()]
+    .filter((g) => g.length > 1)
+    .map((g) => ({
+      kind: "possible-duplicate" as const,
+      title: `Possible duplicate charge: ${g[0]!.name}`,
+      detail: `${g.length} charges of ${money(Math.abs(g[0]!.amount))} on ${g[0]!.date}.`,
+      severity: "warn" as const,
+      transactionIds: g.map((t) => t.id),
+    }));
+}
@@ -0,0 +1,79 @@
+import express from "express";
+import cors from "cors";
+import { requireAuth } from "./auth";
+import { accountsRouter } from "./routes/accounts";
+import { adviceRouter } from "./routes/advice";
+import { attachmentsRouter } from "./routes/attachments";
+import { authRouter } from "./routes/auth";
+import { budgetsRouter } from "./routes/budgets";
+import { goalsRouter } from "./routes/goals";
+import { insightsRouter } from "./routes/insights";
+import { merchantsRouter } from "./routes/merchants";
+import { profilesRouter } from "./routes/profiles";
+import { rulesRouter } from "./routes/rules";
+import { settingsRouter } from "./routes/settings";
+import { transactionsRouter } from "./routes/transactions";
+import type { Store } from "./store";
+import { errorHandler } from "./validation";
+
+export function createApp(store: Store) {
+  const app = express();
+
+  // The client reads download file names from Content-Disposition.
+  app.use(cors({ exposedHeaders: ["Content-Disposition"] }));
+  app.use(express.json());
+
+  /* =========================
+     Public Routes
+  ========================= */
+
+  app.get("/", (_req, res) => {
+    res.type("text").send("Finance Robot API is running ✅ Try /health");
+  });
+
+  app.get("/health", (_req, res) => {
+    res.json({ status: "ok", time: new Date().toISOString() });
+  });
+
+  app.use("/auth", authRouter(store));
+
+  /* =========================
+     Authenticated Routes
+  ========================= */
+
+  app.use(
+    [
+      "/transactions",
+      "/insights",
+      "/reset",
+      "/import-profiles",
+      "/rules",
+      "/budgets",
+      "/accounts",
+      "/advice",
+      "/goals",
+      "/settings",
+      "/merchants",
+    ],
+    requireAuth
+  );
+
+  app.use(transactionsRouter(store));
+  app.use(attachmentsRouter(store));
+  app.use("/insights", insightsRouter(store));
+  app.use("/import-profiles", profilesRouter(store));
+  app.use("/rules", rulesRouter(store));
+  app.use("/budgets", budgetsRouter(store));
+  app.use("/accounts", accountsRouter(store));
+  app.use("/advice", adviceRouter(store));
+  app.use("/goals", goalsRouter(store));
+  app.use("/settings", settingsRouter(store));
+  app.use("/merchants", merchantsRouter(store));
+
+  app.use((_req, res) => {
+    res.status(404).json({ error: "Not found" });
+  });
+  app.use(errorHandler);
+
+  return app;
+}
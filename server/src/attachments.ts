@@ -0,0 +1,42 @@
+import multer from "multer";
+import crypto from "node:crypto";
+import { rm } from "node:fs/promises";
+import path from "node:path";
+import type { Store } from "./store";
+import type { Attachment } from "./types";
+
+/* =========================
+   Attachment Files
+========================= */
+
+// Only metadata goes in the store; the files themselves live here, named by
+// the attachment's id. Kept on disk even with STORE_DRIVER=memory.
+export const ATTACHMENTS_DIR = process.env.ATTACHMENTS_DIR ?? "data/attachments";
+
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+// Receipts: photos, scans and PDFs.
+const ALLOWED_TYPES = /^(image\/[\w.+-]+|application\/pdf)$/;
+
+// Files of other types are dropped, which leaves `req.file` unset.
+export const attachmentUpload = multer({
+  storage: multer.diskStorage({
+    destination: ATTACHMENTS_DIR,
+    filename: (_req, _file, cb) => cb(null, crypto.randomUUID()),
+  }),
+  limits: { fileSize: ATTACHMENT_MAX_BYTES, files: 1 },
+  fileFilter: (_req, file, cb) => cb(null, ALLOWED_TYPES.test(file.mimetype)),
+});
+
+export function attachmentPath(attachment: Pick<Attachment, "id">) {
+  return path.resolve(ATTACHMENTS_DIR, attachment.id);
+}
+
+/** Deletes the matching attachments and their files; files already gone are skipped. */
+export async function removeAttachments(store: Store, predicate: (a: Attachment) => boolean) {
+  const removed = await store.attachments.find(predicate);
+  if (removed.length === 0) return 0;
+  await store.attachments.remove(predicate);
+  await Promise.all(removed.map((a) => rm(attachmentPath(a), { force: true })));
+  return removed.length;
+}
@@ -0,0 +1,82 @@
+import type { NextFunction, Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import crypto from "node:crypto";
+
+declare global {
+  namespace Express {
+    interface Request {
+      userId?: string;
+    }
+  }
+}
+
+/* =========================
+   Config
+========================= */
+
+export const ACCESS_TOKEN_TTL = "15m";
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+let fallbackSecret: string | undefined;
+
+function jwtSecret(): string {
+  if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+
+  // Fine for local dev, but every restart signs everyone out.
+  if (!fallbackSecret) {
+    console.warn("JWT_SECRET is not set; using a random secret for this process");
+    fallbackSecret = crypto.randomBytes(32).toString("hex");
+  }
+  return fallbackSecret;
+}
+
+/* =========================
+   Tokens
+========================= */
+
+type TokenPayload = { sub: string; typ: "access" | "refresh"; jti?: string };
+
+export function signAccessToken(userId: string) {
+  return jwt.sign({ typ: "access" }, jwtSecret(), { subject: userId, expiresIn: ACCESS_TOKEN_TTL });
+}
+
+export function signRefreshToken(userId: string, tokenId: string) {
+  return jwt.sign({ typ: "refresh" }, jwtSecret(), {
+    subject: userId,
+    jwtid: tokenId,
+    expiresIn: `${REFRESH_TOKEN_TTL_DAYS}d`,
+  });
+}
+
+/** Returns the payload if the token is valid and of the expected type, else null. */
+export function verifyToken(token: string, typ: TokenPayload["typ"]): TokenPayload | null {
+  try {
+    const payload = jwt.verify(token, jwtSecret()) as TokenPayload;
+    return payload.typ === typ && payload.sub ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/* =========================
+   Middleware
+========================= */
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  const payload = token ? verifyToken(token, "access") : null;
+
+  if (!payload) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+
+  req.userId = payload.sub;
+  next();
+}
+
+/** The signed-in user's id; only valid behind `requireAuth`. */
+export function currentUserId(req: Request): string {
+  if (!req.userId) throw new Error("currentUserId() called on a route without requireAuth");
+  return req.userId;
+}
@@ -0,0 +1,127 @@
+import { allocate } from "./splits";
+import type { Budget, Transaction } from "./types";
+
+/* =========================
+   Months
+========================= */
+
+export function currentMonth(now = new Date()) {
+  return now.toISOString().slice(0, 7);
+}
+
+export function shiftMonth(month: string, delta: number) {
+  const [y, m] = month.split("-").map(Number);
+  const d = new Date(Date.UTC(y!, m! - 1 + delta, 1));
+  return d.toISOString().slice(0, 7);
+}
+
+/** Whole months from `from` to `to` (both YYYY-MM); negative if `to` is earlier. */
+export function monthsBetween(from: string, to: string) {
+  const [fy, fm] = from.split("-").map(Number);
+  const [ty, tm] = to.split("-").map(Number);
+  return (ty! - fy!) * 12 + (tm! - fm!);
+}
+
+export function daysInMonth(month: string) {
+  const [y, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(y!, m!, 0)).getUTCDate();
+}
+
+/* =========================
+   Budget Status
+========================= */
+
+export type BudgetStatus = {
+  budgetId: string;
+  category: string;
+  month: string; // YYYY-MM
+  budgeted: number; // this month's amount
+  carriedOver: number; // +unspent / -overspent from last month (rollover only)
+  available: number; // budgeted + carriedOver
+  actual: number; // spend so far
+  remaining: number; // available - actual
+  projected: number; // month-end spend at the current pace
+  percentUsed: number; // actual / available, 0 when nothing is available
+};
+
+// Rollover chains are followed at most this far back.
+const MAX_ROLLOVER_MONTHS = 12;
+
+/** A month-specific budget beats the category's every-month budget. */
+export function effectiveBudget(budgets: Budget[], category: string, month: string): Budget | undefined {
+  return (
+    budgets.find((b) => b.category === category && b.month === month) ??
+    budgets.find((b) => b.category === category && b.month === null)
+  );
+}
+
+type Spend = { total: number; largest: number };
+
+function spendByCategory(transactions: Transaction[], month: string) {
+  const spend = new Map<string, Spend>();
+  for (const t of allocate(transactions)) {
+    if (t.amount >= 0 || !t.date.startsWith(month)) continue;
+    const cat = t.category || "Uncategorized";
+    const s = spend.get(cat) ?? { total: 0, largest: 0 };
+    s.total += Math.abs(t.amount);
+    s.largest = Math.max(s.largest, Math.abs(t.amount));
+    spend.set(cat, s);
+  }
+  return spend;
+}
+
+/**
+ * Budgeted vs. actual for every category with a budget in `month`. For the
+ * current month, `projected` extrapolates spend to month end, treating the
+ * single largest charge as one-off so paying rent on the 1st isn't "on pace"
+ * to cost thirty times over.
+ */
+export function budgetStatus(budgets: Budget[], transactions: Transaction[], month: string, now = new Date()): BudgetStatus[] {
+  const spendCache = new Map<string, Map<string, Spend>>();
+  const spendIn = (m: string) => {
+    if (!spendCache.has(m)) spendCache.set(m, spendByCategory(transactions, m));
+    return spendCache.get(m)!;
+  };
+
+  // What a rollover budget brings into `m` from the month before.
+  function carryInto(category: string, m: string, depth: number): number {
+    const prevMonth = shiftMonth(m, -1);
+    const current = effectiveBudget(budgets, category, m);
+    const prev = effectiveBudget(budgets, category, prevMonth);
+    if (!current?.rollover || !prev || depth >= MAX_ROLLOVER_MONTHS) return 0;
+
+    // Months before an every-month budget was created weren't planned, so nothing rolls out of them.
+    if (prev.month === null && prevMonth < prev.createdAt.slice(0, 7)) return 0;
+
+    const prevAvailable = prev.amount + carryInto(category, prevMonth, depth + 1);
+    return prevAvailable - (spendIn(prevMonth).get(category)?.total ?? 0);
+  }
+
+  const categories = Array.from(new Set(budgets.map((b) => b.category))).sort();
+  const elapsed = month === currentMonth(now) ? now.getUTCDate() / daysInMonth(month) : 1;
+
+  return categories.flatMap((category) => {
+    const budget = effectiveBudget(budgets, category, month);
+    if (!budget) return [];
+
+    const carriedOver = carryInto(category, month, 0);
+    const available = budget.amount + carriedOver;
+    const spend = spendIn(month).get(category) ?? { total: 0, largest: 0 };
+    const actual = spend.total;
+
+    return [
+      {
+        budgetId: budget.id,
+        category,
+        month,
+        budgeted: budget.amount,
+        carriedOver,
+        available,
+        actual,
+        remaining: available - actual,
+        projected: month > currentMonth(now) ? 0 : spend.largest + (actual - spend.largest) / elapsed,
+        percentUsed: available > 0 ? actual / available : 0,
+      },
+    ];
+  });
+}
@@ -0,0 +1,166 @@
+import type { DateFormat } from "./types";
+
+/* =========================
+   Date Normalization
+========================= */
+
+// Which of the first two numbers in "03/04/2025" is the month.
+export type DateOrder = "MDY" | "DMY";
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const ISO = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[t\s].*)?$/; // 2025-12-03, 2025/12/03, 2025-12-03T10:00:00Z
+const COMPACT = /^(\d{4})(\d{2})(\d{2})$/; // 20251203
+const NUMERIC = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/; // 12/03/2025, 03.12.25
+const DAY_FIRST = /^(?:[a-z]+,?\s+)?(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]+)\.?,?[\s-]+(\d{2}|\d{4})$/; // 3 Dec 2025, 03-Dec-25
+const MONTH_FIRST = /^(?:[a-z]+,?\s+)?([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/; // Dec 3, 2025; Wednesday, December 3 2025
+
+// Two-digit years up to 69 are 20xx, the rest 19xx.
+function fullYear(y: string) {
+  if (y.length === 4) return Number(y);
+  const n = Number(y);
+  return n < 70 ? 2000 + n : 1900 + n;
+}
+
+// "dec", "december" and "sept" all name a month; "de" and "decx" don't.
+function monthNumber(name: string) {
+  const i = name.length < 3 ? -1 : MONTHS.findIndex((full) => full.startsWith(name));
+  return i === -1 ? null : i + 1;
+}
+
+// YYYY-MM-DD, or null for dates that don't exist (Feb 30, month 13).
+function isoDate(year: number, month: number, day: number) {
+  if (month < 1 || month > 12 || day < 1) return null;
+  if (day > new Date(Date.UTC(year, month, 0)).getUTCDate()) return null;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Converts a date as banks and people write it to YYYY-MM-DD, or null. ISO,
+ * compact (20251203) and written-out months ("Dec 3, 2025", "3 Dec 2025")
+ * are unambiguous; `order` decides all-numeric ones like "03/12/2025".
+ */
+export function parseDate(raw: string, order: DateOrder): string | null {
+  const s = raw.trim().toLowerCase().replace(/\s+/g, " ");
+
+  let m = ISO.exec(s) ?? COMPACT.exec(s);
+  if (m) return isoDate(Number(m[1]), Number(m[2]), Number(m[3]));
+
+  m = NUMERIC.exec(s);
+  if (m) {
+    const [a, b] = [Number(m[1]), Number(m[2])];
+    return order === "MDY" ? isoDate(fullYear(m[3]!), a, b) : isoDate(fullYear(m[3]!), b, a);
+  }
+
+  m = DAY_FIRST.exec(s);
+  if (m) {
+    const month = monthNumber(m[2]!);
+    return month ? isoDate(fullYear(m[3]!), month, Number(m[1])) : null;
+  }
+
+  m = MONTH_FIRST.exec(s);
+  if (m) {
+    const month = monthNumber(m[1]!);
+    return month ? isoDate(Number(m[3]), month, Number(m[2])) : null;
+  }
+
+  return null;
+}
+
+/** Why parseDate() rejected `raw`, for import reports. */
+export function dateProblem(raw: string, order: DateOrder) {
+  const s = raw.trim().toLowerCase();
+  if (!s) return "Missing date";
+  const other: DateOrder = order === "MDY" ? "DMY" : "MDY";
+  if (NUMERIC.test(s) && parseDate(s, other)) {
+    return `Only valid as ${other === "MDY" ? "MM/DD" : "DD/MM"}, but the file reads as ${order === "MDY" ? "MM/DD" : "DD/MM"}`;
+  }
+  if (ISO.test(s) || COMPACT.test(s) || NUMERIC.test(s)) return "No such date";
+  return "Unrecognized date format";
+}
+
+/* =========================
+   Day Arithmetic
+========================= */
+
+// Dates are YYYY-MM-DD strings read as UTC midnight, so there are no DST gaps.
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** `date` moved by `days` (negative goes back), as YYYY-MM-DD. */
+export function addDays(date: string, days: number) {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Whole days from `a` to `b`; negative when `b` is earlier. */
+export function daysBetween(a: string, b: string) {
+  return Math.round((Date.parse(b) - Date.parse(a)) / DAY_MS);
+}
+
+/* =========================
+   Day/Month Order
+========================= */
+
+/** The order a profile's `dateFormat` implies, or null when it doesn't say (ISO). */
+export function formatOrder(format: DateFormat): DateOrder | null {
+  if (format === "DD/MM/YYYY") return "DMY";
+  if (format === "MM/DD/YYYY" || format === "MM/DD/YY") return "MDY";
+  return null;
+}
+
+/** The order people write dates in for a locale: en-US is MDY, en-GB and de-DE are DMY. */
+export function localeOrder(locale: string): DateOrder {
+  const parts = new Intl.DateTimeFormat(locale, { timeZone: "UTC" }).formatToParts(Date.UTC(2000, 11, 31));
+  const types = parts.map((p) => p.type);
+  return types.indexOf("day") < types.indexOf("month") ? "DMY" : "MDY";
+}
+
+export type DateResolution = {
+  order: DateOrder;
+  // "request": forced by the uploader; "file": a date like 25/03 or 03/25 settled
+  // it; "profile": the profile's dateFormat; "default": nothing did, so US order.
+  source: "request" | "file" | "profile" | "default";
+  ambiguous: boolean; // every numeric date would read either way
+  conflicting: boolean; // some dates only fit MM/DD and others only DD/MM
+};
+
+/**
+ * Decides the day/month order for a whole file at once, since one "03/04"
+ * can't tell. A date whose first number is above 12 can only be DD/MM (and
+ * vice versa); when dates disagree the majority wins and the rest are
+ * rejected. Files with no telling date fall back to the profile's format.
+ */
+export function resolveDateOrder(raws: string[], hint: DateFormat, requested: DateOrder | null = null): DateResolution {
+  let mdy = 0;
+  let dmy = 0;
+  let numeric = 0;
+  for (const raw of raws) {
+    const m = NUMERIC.exec(raw.trim());
+    if (!m) continue;
+    numeric++;
+    const [a, b] = [Number(m[1]), Number(m[2])];
+    if (a > 12 && b <= 12) dmy++;
+    else if (b > 12 && a <= 12) mdy++;
+  }
+
+  const conflicting = mdy > 0 && dmy > 0;
+  const ambiguous = numeric > 0 && mdy === 0 && dmy === 0;
+  if (requested) return { order: requested, source: "request", ambiguous, conflicting };
+  if (mdy > 0 || dmy > 0) return { order: dmy > mdy ? "DMY" : "MDY", source: "file", ambiguous, conflicting };
+
+  const profileOrder = formatOrder(hint);
+  if (profileOrder) return { order: profileOrder, source: "profile", ambiguous, conflicting };
+  return { order: "MDY", source: "default", ambiguous, conflicting };
+}
@@ -0,0 +1,247 @@
+import type { AdviceItem } from "./advice";
+import type { Money } from "./settings";
+import type { Account, Transaction } from "./types";
+
+/* =========================
+   CSV
+========================= */
+
+// Same columns as the Transaction type, so a file can be read back by scripts
+// (or re-imported: the date/name/amount headers match the generic profile).
+const CSV_COLUMNS: Array<keyof Transaction> = [
+  "id",
+  "userId",
+  "date",
+  "name",
+  "merchant",
+  "amount",
+  "category",
+  "categorySource",
+  "categoryConfidence",
+  "account",
+  "accountId",
+  "transferId",
+  "signRule",
+  "fingerprint",
+  "externalId",
+  "importBatchId",
+  "splits",
+  "tags",
+  "note",
+];
+
+// Tags never contain spaces, so a list becomes one space-separated cell.
+// Splits are objects, so they're written as JSON.
+function csvCell(column: keyof Transaction, value: unknown) {
+  const s =
+    value === null || value === undefined
+      ? ""
+      : column === "splits"
+        ? JSON.stringify(value)
+        : Array.isArray(value)
+          ? value.join(" ")
+          : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(transactions: Transaction[]) {
+  const rows = transactions.map((t) => CSV_COLUMNS.map((c) => csvCell(c, t[c])).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+/* =========================
+   OFX
+========================= */
+
+const ofxDate = (date: string) => date.replace(/-/g, "").slice(0, 8);
+
+function ofxText(s: string, max = 32) {
+  return s.slice(0, max).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function ofxTransaction(t: Transaction) {
+  return [
+    "<STMTTRN>",
+    `<TRNTYPE>${t.amount < 0 ? "DEBIT" : "CREDIT"}`,
+    `<DTPOSTED>${ofxDate(t.date)}`,
+    `<TRNAMT>${t.amount.toFixed(2)}`,
+    `<FITID>${t.externalId ?? t.id}`,
+    `<NAME>${ofxText(t.name)}`,
+    `<MEMO>${ofxText(t.category || "Uncategorized", 255)}`,
+    "</STMTTRN>",
+  ].join("\n");
+}
+
+export type OfxAccount = Pick<Account, "id" | "name" | "kind"> & { balance: number };
+
+/**
+ * An OFX 1.02 (SGML) file with one statement per account; credit cards go in
+ * a credit-card message set. Transactions without an account share one
+ * "UNASSIGNED" checking statement. `FITID` is the bank's id when the
+ * transaction was imported from OFX, and the transaction id otherwise.
+ */
+export function toOfx(transactions: Transaction[], accounts: OfxAccount[], currency: string, now = new Date()) {
+  const groups = new Map<string, Transaction[]>();
+  for (const t of transactions) {
+    const key = t.accountId ?? "";
+    groups.set(key, [...(groups.get(key) ?? []), t]);
+  }
+
+  const bank: string[] = [];
+  const card: string[] = [];
+  for (const [accountId, txs] of groups) {
+    const account = accounts.find((a) => a.id === accountId);
+    const dates = txs.map((t) => t.date).sort();
+    const balance = account?.balance ?? txs.reduce((s, t) => s + t.amount, 0);
+    const isCard = account?.kind === "credit-card";
+    const acctId = ofxText(account?.name ?? "UNASSIGNED", 22);
+
+    const statement = [
+      "<STMTTRNRS>",
+      `<TRNUID>${accountId || "0"}`,
+      "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+      isCard ? "<CCSTMTRS>" : "<STMTRS>",
+      `<CURDEF>${currency}`,
+      isCard
+        ? `<CCACCTFROM><ACCTID>${acctId}</CCACCTFROM>`
+        : `<BANKACCTFROM><BANKID>000000000<ACCTID>${acctId}<ACCTTYPE>${account?.kind === "savings" ? "SAVINGS" : "CHECKING"}</BANKACCTFROM>`,
+      "<BANKTRANLIST>",
+      `<DTSTART>${ofxDate(dates[0]!)}`,
+      `<DTEND>${ofxDate(dates[dates.length - 1]!)}`,
+      ...txs.map(ofxTransaction),
+      "</BANKTRANLIST>",
+      `<LEDGERBAL><BALAMT>${balance.toFixed(2)}<DTASOF>${ofxDate(now.toISOString())}</LEDGERBAL>`,
+      isCard ? "</CCSTMTRS>" : "</STMTRS>",
+      "</STMTTRNRS>",
+    ].join("\n");
+
+    (isCard ? card : bank).push(statement);
+  }
+
+  const header = [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "SECURITY:NONE",
+    "ENCODING:USASCII",
+    "CHARSET:1252",
+    "COMPRESSION:NONE",
+    "OLDFILEUID:NONE",
+    "NEWFILEUID:NONE",
+    "",
+  ].join("\r\n");
+
+  return [
+    header,
+    "<OFX>",
+    "<SIGNONMSGSRSV1><SONRS>",
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    `<DTSERVER>${ofxDate(now.toISOString())}`,
+    "<LANGUAGE>ENG",
+    "</SONRS></SIGNONMSGSRSV1>",
+    ...(bank.length > 0 ? ["<BANKMSGSRSV1>", ...bank, "</BANKMSGSRSV1>"] : []),
+    ...(card.length > 0 ? ["<CREDITCARDMSGSRSV1>", ...card, "</CREDITCARDMSGSRSV1>"] : []),
+    "</OFX>",
+    "",
+  ].join("\n");
+}
+
+/* =========================
+   Report
+========================= */
+
+export type Report = {
+  from: string | null; // YYYY-MM-DD, null when the period is open-ended
+  to: string | null;
+  account: string | null;
+  generatedAt: string; // ISO timestamp
+  totals: {
+    income: number;
+    actualIncome: number;
+    incomeSource: "actual" | "expected";
+    expenses: number;
+    net: number;
+    savingsRate: number;
+  };
+  categories: Array<{ category: string; spent: number; share: number }>; // largest first
+  advice: AdviceItem[];
+};
+
+function escapeHtml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function periodLabel(report: Report) {
+  if (report.from && report.to) return `${report.from} to ${report.to}`;
+  if (report.from) return `Since ${report.from}`;
+  if (report.to) return `Up to ${report.to}`;
+  return "All time";
+}
+
+/** A self-contained page meant to be printed (or saved as PDF) from the browser. */
+export function reportHtml(report: Report, money: Money) {
+  const { totals } = report;
+  const period = periodLabel(report) + (report.account ? ` · ${report.account}` : "");
+
+  const rows = report.categories
+    .map(
+      (c) =>
+        `<tr><td>${escapeHtml(c.category)}</td><td class="num">${money(c.spent)}</td><td class="num">${(c.share * 100).toFixed(1)}%</td></tr>`
+    )
+    .join("\n");
+
+  const advice = report.advice
+    .map(
+      (a) =>
+        `<li class="${a.severity}"><strong>${escapeHtml(a.title)}</strong><br>${escapeHtml(a.detail)}<br><small>${escapeHtml(a.explanation)}</small></li>`
+    )
+    .join("\n");
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Finance Robot report: ${escapeHtml(period)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #1e293b; max-width: 760px; margin: 32px auto; padding: 0 16px; }
+  h1 { margin-bottom: 4px; }
+  .muted { color: #64748b; }
+  .totals { display: flex; gap: 24px; margin: 24px 0; }
+  .totals div { flex: 1; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px; }
+  .totals strong { display: block; font-size: 20px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; }
+  .num { text-align: right; }
+  ul { padding-left: 20px; }
+  li { margin-bottom: 10px; }
+  li.urgent strong { color: #dc2626; }
+  li.warn strong { color: #d97706; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Finance Robot report</h1>
+<div class="muted">${escapeHtml(period)} · generated ${escapeHtml(report.generatedAt.slice(0, 10))}</div>
+
+<div class="totals">
+  <div>${totals.incomeSource === "expected" ? "Expected income" : "Income"}<strong>${money(totals.income)}</strong></div>
+  <div>Expenses<strong>${money(totals.expenses)}</strong></div>
+  <div>Net<strong>${money(totals.net)}</strong></div>
+  <div>Savings rate<strong>${(totals.savingsRate * 100).toFixed(1)}%</strong></div>
+</div>
+
+<h2>Spending by category</h2>
+${report.categories.length > 0 ? `<table>\n<tr><th>Category</th><th class="num">Spent</th><th class="num">Share</th></tr>\n${rows}\n</table>` : `<p class="muted">No spending in this period.</p>`}
+
+<h2>Advice</h2>
+<ul>
+${advice}
+</ul>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { normalizeName } from "./imports";
+import { categoriesOf } from "./splits";
+import { normalizeTag } from "./tags";
+import type { Transaction } from "./types";
+
+/* =========================
+   Transaction Filters
+========================= */
+
+// Shared by GET /transactions and every /insights route so the numbers on
+// screen always describe the same set of transactions.
+const filterSchema = z
+  .object({
+    from: z.iso.date().exactOptional(),
+    to: z.iso.date().exactOptional(),
+    month: z
+      .string()
+      .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Expected YYYY-MM")
+      .exactOptional(),
+    account: z.string().exactOptional(),
+    category: z.string().exactOptional(),
+    tag: z.string().transform(normalizeTag).exactOptional(),
+  })
+  .refine((q) => !(q.month && (q.from || q.to)), "Use either month or from/to, not both")
+  .refine((q) => !(q.from && q.to && q.from > q.to), "from must not be after to");
+
+export type TransactionFilter = {
+  from?: string; // inclusive YYYY-MM-DD
+  to?: string; // inclusive YYYY-MM-DD
+  account?: string;
+  category?: string;
+  tag?: string; // normalized, see normalizeTag()
+};
+
+function lastDayOfMonth(month: string) {
+  const [y, m] = month.split("-").map(Number);
+  const day = new Date(Date.UTC(y!, m!, 0)).getUTCDate();
+  return `${month}-${String(day).padStart(2, "0")}`;
+}
+
+/** Parses `from`/`to`/`month`/`account`/`category`/`tag` query params; `month` expands to a from/to range. */
+export function parseFilter(query: unknown) {
+  const parsed = filterSchema.safeParse(query);
+  if (!parsed.success) return parsed;
+
+  const { month, ...rest } = parsed.data;
+  const filter: TransactionFilter = month ? { ...rest, from: `${month}-01`, to: lastDayOfMonth(month) } : rest;
+  return { success: true as const, data: filter };
+}
+
+export function matchesFilter(t: Transaction, f: TransactionFilter) {
+  if (f.from && t.date < f.from) return false;
+  if (f.to && t.date > f.to) return false;
+  if (f.account !== undefined && t.account !== f.account) return false;
+  // A split transaction matches any of its parts' categories.
+  if (f.category !== undefined && !categoriesOf(t).includes(f.category)) return false;
+  if (f.tag !== undefined && !t.tags.includes(f.tag)) return false;
+  return true;
+}
+
+/* =========================
+   Transaction List
+========================= */
+
+export const PAGE_SIZE_MAX = 500;
+
+// GET /transactions only: search, amount and sign filters, sorting and paging
+// on top of the shared filters above. Amount bounds apply to the absolute
+// amount, so "over $100" means the same for income and spending.
+const listSchema = z
+  .object({
+    q: z.string().trim().default(""),
+    type: z.enum(["income", "expense"]).exactOptional(),
+    minAmount: z.coerce.number().nonnegative().exactOptional(),
+    maxAmount: z.coerce.number().nonnegative().exactOptional(),
+    sort: z.enum(["date", "amount", "name"]).default("date"),
+    order: z.enum(["asc", "desc"]).exactOptional(),
+    offset: z.coerce.number().int().min(0).default(0),
+    limit: z.coerce.number().int().min(1).max(PAGE_SIZE_MAX).default(50),
+  })
+  .refine(
+    (q) => q.minAmount === undefined || q.maxAmount === undefined || q.minAmount <= q.maxAmount,
+    "minAmount must not be above maxAmount"
+  );
+
+export type ListQuery = z.infer<typeof listSchema>;
+
+export function parseListQuery(query: unknown) {
+  return listSchema.safeParse(query);
+}
+
+/** Every word of `q` appears in the name or merchant, ignoring case and punctuation like normalizeName(). */
+export function matchesSearch(t: Transaction, q: Pick<ListQuery, "q" | "type" | "minAmount" | "maxAmount">) {
+  if (q.type === "income" && t.amount <= 0) return false;
+  if (q.type === "expense" && t.amount >= 0) return false;
+  const amount = Math.abs(t.amount);
+  if (q.minAmount !== undefined && amount < q.minAmount) return false;
+  if (q.maxAmount !== undefined && amount > q.maxAmount) return false;
+
+  const words = normalizeName(q.q).split(" ").filter(Boolean);
+  if (words.length === 0) return true;
+  const text = normalizeName(`${t.name} ${t.merchant}`);
+  return words.every((w) => text.includes(w));
+}
+
+const compare = {
+  date: (a: Transaction, b: Transaction) => a.date.localeCompare(b.date),
+  amount: (a: Transaction, b: Transaction) => a.amount - b.amount,
+  name: (a: Transaction, b: Transaction) => a.name.localeCompare(b.name, undefined, { sensitivity: "base" }),
+};
+
+/**
+ * One page of the matching transactions. Dates and amounts sort descending by
+ * default (newest, largest first) and names ascending; ties fall back to the
+ * newest date, then id, so pages never overlap.
+ */
+export function listTransactions(transactions: Transaction[], q: ListQuery) {
+  const order = q.order ?? (q.sort === "name" ? "asc" : "desc");
+  const direction = order === "asc" ? 1 : -1;
+  const sorted = transactions
+    .filter((t) => matchesSearch(t, q))
+    .sort((a, b) => direction * compare[q.sort](a, b) || compare.date(b, a) || a.id.localeCompare(b.id));
+
+  return {
+    items: sorted.slice(q.offset, q.offset + q.limit),
+    total: sorted.length,
+    offset: q.offset,
+    limit: q.limit,
+  };
+}
@@ -0,0 +1,99 @@
+import { addDays, daysBetween } from "./dates";
+import { detectRecurring, nextOccurrence } from "./recurring";
+import { paydays, type Settings } from "./settings";
+import { allocate } from "./splits";
+import type { Account, Transaction } from "./types";
+
+/* =========================
+   Cash-Flow Forecast
+========================= */
+
+export const FORECAST_MAX_DAYS = 90;
+
+// Discretionary spend is averaged over this many days before the forecast starts.
+const DISCRETIONARY_LOOKBACK_DAYS = 90;
+
+export type ForecastEvent = { date: string; name: string; category: string; amount: number };
+
+export type ForecastPoint = {
+  date: string;
+  balance: number; // projected end-of-day balance
+  recurring: number; // signed total of recurring items that day
+  discretionary: number; // negative: the day's share of average discretionary spend
+};
+
+export type Forecast = {
+  asOf: string; // last day of actual data; the forecast starts the day after
+  startingBalance: number;
+  discretionaryDaily: number; // positive
+  discretionaryByCategory: Record<string, number>; // average per day
+  events: ForecastEvent[]; // upcoming recurring income and charges
+  points: ForecastPoint[]; // one per day
+  lowest: { date: string; balance: number } | null;
+};
+
+/**
+ * Projects the balance `days` ahead of `asOf`: active recurring series land on
+ * their expected dates, and everything else the user spent recently is spread
+ * evenly across the days. Irregular income isn't projected, so the forecast
+ * errs on the cautious side. When the user's settings give an expected income
+ * and pay schedule, paychecks land on those paydays instead of any recurring
+ * income that was detected.
+ *
+ * `transactions` must include transfers (they move money between the
+ * `accounts` being projected) and nothing after `asOf`.
+ */
+export function forecast(
+  transactions: Transaction[],
+  accounts: Account[],
+  asOf: string,
+  days: number,
+  settings: Settings
+): Forecast {
+  const startingBalance =
+    accounts.reduce((sum, a) => sum + a.openingBalance, 0) + transactions.reduce((sum, t) => sum + t.amount, 0);
+
+  const flows = transactions.filter((t) => t.transferId === null);
+  const end = addDays(asOf, days);
+  const pay = paydays(settings, asOf, end);
+  const series = detectRecurring(flows, asOf).filter(
+    (s) => s.status === "active" && (pay.length === 0 || s.typicalAmount < 0)
+  );
+
+  const events: ForecastEvent[] = pay.map((p) => ({ ...p, name: "Paycheck", category: "Income" }));
+  for (const s of series) {
+    // A charge that's due but hasn't shown up yet is expected tomorrow.
+    let date = s.nextExpected > asOf ? s.nextExpected : addDays(asOf, 1);
+    for (; date <= end; date = nextOccurrence(date, s.cadence)) {
+      events.push({ date, name: s.name, category: s.category, amount: s.lastAmount });
+    }
+  }
+  events.sort((a, b) => a.date.localeCompare(b.date));
+
+  const recurringIds = new Set(series.flatMap((s) => s.transactionIds));
+  const since = addDays(asOf, -DISCRETIONARY_LOOKBACK_DAYS);
+  const firstDate = flows.reduce((min, t) => (t.date < min ? t.date : min), asOf);
+  const lookback = Math.min(DISCRETIONARY_LOOKBACK_DAYS, daysBetween(firstDate, asOf) + 1);
+
+  const discretionaryByCategory: Record<string, number> = {};
+  for (const t of allocate(flows)) {
+    if (t.amount >= 0 || t.date <= since || recurringIds.has(t.id)) continue;
+    const cat = t.category || "Uncategorized";
+    discretionaryByCategory[cat] = (discretionaryByCategory[cat] || 0) + Math.abs(t.amount) / lookback;
+  }
+  const discretionaryDaily = Object.values(discretionaryByCategory).reduce((s, v) => s + v, 0);
+
+  const points: ForecastPoint[] = [];
+  let balance = startingBalance;
+  let lowest: Forecast["lowest"] = null;
+
+  for (let i = 1; i <= days; i++) {
+    const date = addDays(asOf, i);
+    const recurring = events.filter((e) => e.date === date).reduce((s, e) => s + e.amount, 0);
+    balance += recurring - discretionaryDaily;
+    points.push({ date, balance, recurring, discretionary: -discretionaryDaily });
+    if (!lowest || balance < lowest.balance) lowest = { date, balance };
+  }
+
+  return { asOf, startingBalance, discretionaryDaily, discretionaryByCategory, events, points, lowest };
+}
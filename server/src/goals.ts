@@ -0,0 +1,111 @@
+import { monthsBetween, shiftMonth } from "./budgets";
+import { expectedIncome, type Settings } from "./settings";
+import { allocate } from "./splits";
+import type { Account, Goal, Transaction } from "./types";
+
+/* =========================
+   Savings Rate
+========================= */
+
+// The savings rate behind contribution planning is measured over this many
+// months, the same way /insights/summary computes it for a period.
+export const SAVINGS_LOOKBACK_MONTHS = 3;
+
+export type SavingsPace = {
+  from: string; // YYYY-MM-DD
+  to: string;
+  savingsRate: number; // net / income, 0 without income
+  monthlyIncome: number;
+  monthlySavings: number; // net per month, may be negative
+};
+
+/**
+ * Income and net over the last few months of data up to `asOf` (usually the
+ * latest transaction). The caller excludes transfers. An expected monthly
+ * income from the user's settings replaces the income recorded.
+ */
+export function savingsPace(transactions: Transaction[], asOf: string, settings: Settings): SavingsPace {
+  const from = `${shiftMonth(asOf.slice(0, 7), -(SAVINGS_LOOKBACK_MONTHS - 1))}-01`;
+  let actualIncome = 0;
+  let expenses = 0;
+
+  for (const t of transactions) {
+    if (t.date < from || t.date > asOf) continue;
+    if (t.amount > 0) actualIncome += t.amount;
+    else expenses += Math.abs(t.amount);
+  }
+
+  const income = expectedIncome(settings, SAVINGS_LOOKBACK_MONTHS) ?? actualIncome;
+  const net = income - expenses;
+
+  return {
+    from,
+    to: asOf,
+    savingsRate: income > 0 ? net / income : 0,
+    monthlyIncome: income / SAVINGS_LOOKBACK_MONTHS,
+    monthlySavings: net / SAVINGS_LOOKBACK_MONTHS,
+  };
+}
+
+/* =========================
+   Goal Progress
+========================= */
+
+export type GoalProgress = {
+  saved: number;
+  remaining: number; // never negative
+  percent: number; // 0–1
+  monthsLeft: number | null; // whole months until targetDate, at least 1; null without a date
+  requiredMonthly: number | null; // to reach the target by targetDate
+  shareOfSavings: number | null; // requiredMonthly / current monthly savings
+  onTrack: boolean | null; // current savings cover requiredMonthly
+  projectedDate: string | null; // YYYY-MM at the current pace, if saving at all
+};
+
+/**
+ * `transactions` are the user's own (transfers included, since moving money
+ * into savings is how most goals grow); `accounts` supplies linked balances.
+ */
+export function goalProgress(
+  goal: Goal,
+  transactions: Transaction[],
+  accounts: Account[],
+  pace: SavingsPace,
+  today: string
+): GoalProgress {
+  let saved = goal.startingAmount;
+
+  if (goal.accountId) {
+    const account = accounts.find((a) => a.id === goal.accountId);
+    const balance = transactions.filter((t) => t.accountId === goal.accountId).reduce((s, t) => s + t.amount, 0);
+    saved += (account?.openingBalance ?? 0) + balance;
+  } else if (goal.category) {
+    // Money moved out under the category (e.g. "Savings") adds to the goal;
+    // money coming back under it is a withdrawal.
+    for (const t of allocate(transactions)) {
+      if (t.category === goal.category && t.date >= goal.startDate) saved -= t.amount;
+    }
+  }
+
+  saved = Math.max(0, saved);
+  const remaining = Math.max(0, goal.targetAmount - saved);
+  const monthsLeft = goal.targetDate ? Math.max(1, monthsBetween(today.slice(0, 7), goal.targetDate.slice(0, 7))) : null;
+  const requiredMonthly = monthsLeft === null ? null : remaining / monthsLeft;
+  const saving = pace.monthlySavings > 0;
+
+  return {
+    saved,
+    remaining,
+    percent: goal.targetAmount > 0 ? Math.min(1, saved / goal.targetAmount) : 1,
+    monthsLeft,
+    requiredMonthly,
+    shareOfSavings: requiredMonthly !== null && saving ? requiredMonthly / pace.monthlySavings : null,
+    onTrack: requiredMonthly === null ? null : requiredMonthly <= Math.max(0, pace.monthlySavings),
+    projectedDate:
+      remaining === 0
+        ? today.slice(0, 7)
+        : saving
+          ? shiftMonth(today.slice(0, 7), Math.ceil(remaining / pace.monthlySavings))
+          : null,
+  };
+}
@@ -0,0 +1,81 @@
+import crypto from "node:crypto";
+import type { Transaction } from "./types";
+
+/* =========================
+   Fingerprints
+========================= */
+
+// Lowercase, drop punctuation and collapse whitespace so "AMAZON.COM*123 " and
+// "Amazon.com 123" from two exports of the same statement still line up.
+export function normalizeName(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function fingerprint(tx: Pick<Transaction, "date" | "name" | "amount" | "account">) {
+  const key = [tx.date, normalizeName(tx.name), tx.amount.toFixed(2), tx.account.trim().toLowerCase()].join("|");
+  return crypto.createHash("sha256").update(key).digest("hex").slice(0, 32);
+}
+
+/* =========================
+   Duplicate Detection
+========================= */
+
+export type ImportRow = {
+  row: number; // line number in the source file
+  status: "new" | "duplicate";
+  transaction: Transaction;
+};
+
+// A row the importer couldn't read, reported back instead of dropped silently.
+export type RejectedRow = {
+  row: number;
+  field: string;
+  value: string; // as written in the file
+  reason: string;
+};
+
+const externalKey = (t: Transaction) => `${t.accountId ?? t.account.trim().toLowerCase()}|${t.externalId}`;
+
+function countFingerprints(transactions: Transaction[]) {
+  const counts = new Map<string, number>();
+  for (const t of transactions) counts.set(t.fingerprint, (counts.get(t.fingerprint) ?? 0) + 1);
+  return counts;
+}
+
+// Two identical coffees on the same day are legitimate, so we match by count:
+// the nth occurrence of a fingerprint in the file is a duplicate only if the
+// store already holds at least n transactions with that fingerprint.
+//
+// Rows with a bank id (OFX FITID) are matched on it instead, so a reworded
+// description doesn't slip through. An unknown id is still checked by
+// fingerprint against transactions that came without one (e.g. the same
+// account imported from CSV before).
+export function classifyImport(candidates: Array<{ row: number; transaction: Transaction }>, existing: Transaction[]) {
+  const existingCounts = countFingerprints(existing);
+  const withoutIdCounts = countFingerprints(existing.filter((t) => t.externalId === null));
+  const knownIds = new Set(existing.filter((t) => t.externalId !== null).map(externalKey));
+
+  const seen = new Map<string, number>();
+  const seenNewIds = new Map<string, number>();
+  return candidates.map(({ row, transaction }): ImportRow => {
+    if (transaction.externalId !== null) {
+      const key = externalKey(transaction);
+      if (knownIds.has(key)) return { row, status: "duplicate", transaction };
+      knownIds.add(key);
+
+      const n = (seenNewIds.get(transaction.fingerprint) ?? 0) + 1;
+      seenNewIds.set(transaction.fingerprint, n);
+      const status = n <= (withoutIdCounts.get(transaction.fingerprint) ?? 0) ? "duplicate" : "new";
+      return { row, status, transaction };
+    }
+
+    const n = (seen.get(transaction.fingerprint) ?? 0) + 1;
+    seen.set(transaction.fingerprint, n);
+
+    const status = n <= (existingCounts.get(transaction.fingerprint) ?? 0) ? "duplicate" : "new";
+    return { row, status, transaction };
+  });
+}
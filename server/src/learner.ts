@@ -0,0 +1,120 @@
+import { normalizeName } from "./imports";
+import { categorize } from "./rules";
+import type { CategoryRule, CategorySource, Transaction } from "./types";
+
+/* =========================
+   Tokens
+========================= */
+
+// Store numbers, dates, card suffixes and state codes change between visits,
+// so only alphabetic tokens of 3+ letters carry merchant identity.
+export function tokenize(name: string): string[] {
+  return normalizeName(name)
+    .split(" ")
+    .filter((t) => t.length >= 3 && /^[a-z]+$/.test(t));
+}
+
+/* =========================
+   Naive Bayes Model
+========================= */
+
+export type CategoryModel = {
+  docs: number;
+  vocabulary: Set<string>;
+  categories: Map<string, { docs: number; tokens: number; counts: Map<string, number> }>;
+};
+
+/** Trains on the user's manual corrections only, so it learns their taste rather than echoing the rules. */
+export function trainModel(transactions: Transaction[]): CategoryModel {
+  const model: CategoryModel = { docs: 0, vocabulary: new Set(), categories: new Map() };
+
+  for (const t of transactions) {
+    if (t.categorySource !== "manual") continue;
+    const tokens = tokenize(t.name);
+    if (tokens.length === 0) continue;
+
+    let c = model.categories.get(t.category);
+    if (!c) {
+      c = { docs: 0, tokens: 0, counts: new Map() };
+      model.categories.set(t.category, c);
+    }
+
+    model.docs++;
+    c.docs++;
+    for (const tok of tokens) {
+      model.vocabulary.add(tok);
+      c.tokens++;
+      c.counts.set(tok, (c.counts.get(tok) ?? 0) + 1);
+    }
+  }
+
+  return model;
+}
+
+export type Prediction = { category: string; confidence: number };
+
+/**
+ * Most likely category and a 0–1 confidence, or null when none of the name's
+ * tokens have been seen in a correction. The confidence is the posterior
+ * probability scaled by the share of tokens the model knows, so one shared
+ * word ("Blue Apron" vs. a corrected "Blue Bottle") isn't enough on its own.
+ */
+export function predict(model: CategoryModel, name: string): Prediction | null {
+  const all = tokenize(name);
+  const tokens = all.filter((t) => model.vocabulary.has(t));
+  if (tokens.length === 0 || model.categories.size === 0) return null;
+
+  const v = model.vocabulary.size;
+  const scores: Array<[string, number]> = [];
+
+  for (const [category, c] of model.categories) {
+    let logP = Math.log(c.docs / model.docs);
+    for (const tok of tokens) {
+      logP += Math.log(((c.counts.get(tok) ?? 0) + 1) / (c.tokens + v)); // Laplace smoothing
+    }
+    scores.push([category, logP]);
+  }
+
+  // Softmax over log-probabilities, shifted by the max for numerical stability.
+  const max = Math.max(...scores.map(([, s]) => s));
+  const total = scores.reduce((sum, [, s]) => sum + Math.exp(s - max), 0);
+  const [category, best] = scores.reduce((a, b) => (b[1] > a[1] ? b : a));
+
+  const coverage = tokens.length / all.length;
+  return { category, confidence: (Math.exp(best - max) / total) * coverage };
+}
+
+/* =========================
+   Category Choice
+========================= */
+
+// Below this the learner defers to the merchant directory, the bank's category
+// and then the rules.
+export const MIN_CONFIDENCE = 0.75;
+
+export type CategoryChoice = {
+  category: string;
+  categorySource: CategorySource;
+  categoryConfidence: number | null;
+};
+
+export function chooseCategory(
+  model: CategoryModel,
+  rules: CategoryRule[],
+  name: string,
+  amount: number,
+  bankCategory = "",
+  merchantCategory: string | null = null
+): CategoryChoice {
+  const prediction = predict(model, name);
+  if (prediction && prediction.confidence >= MIN_CONFIDENCE) {
+    return { category: prediction.category, categorySource: "learned", categoryConfidence: prediction.confidence };
+  }
+  if (merchantCategory) {
+    return { category: merchantCategory, categorySource: "merchant", categoryConfidence: null };
+  }
+  if (bankCategory) {
+    return { category: bankCategory, categorySource: "bank", categoryConfidence: null };
+  }
+  return { category: categorize(rules, name, amount), categorySource: "rule", categoryConfidence: null };
+}
@@ -0,0 +1,169 @@
+import { normalizeName } from "./imports";
+import { allocate } from "./splits";
+import type { Store } from "./store";
+import type { Merchant, Transaction } from "./types";
+
+/* =========================
+   Descriptor Cleaning
+========================= */
+
+// Wording banks put before the merchant on card and ACH lines.
+const BANK_PREFIX =
+  /^(pos( purchase| debit)?|debit card( purchase)?|checkcard( \d{4})?|purchase( authorized on \S+)?|recurring( payment)?|preauthorized|ach( debit| credit)?)\s+/i;
+
+// Payment processors that sell through other merchants: "SQ *BLUE BOTTLE", "TST* SWEETGREEN".
+const PROCESSOR_PREFIX = /^(sq|sqr|squ|tst|toast|pp|paypal|sp|gglpay|google|goog|ic|dd|wpy|pay)\s*\*\s*/i;
+
+// Card and account suffixes: "XXXX1234", "****1234", "CARD 1234", "ENDING IN 1234".
+const CARD_SUFFIX = /\s+(x{2,}|\*{2,}|card\s+|ending in\s+)\d{2,}\b.*$/i;
+
+// Words that introduce a store number: "STORE 123", "#123", "NO. 123".
+const STORE_WORD = /^(store|str|no\.?|num|#)$/i;
+
+// Two-letter codes that end a descriptor's location, e.g. "OAKLAND CA".
+const US_STATES = new Set(
+  ("al ak az ar ca co ct de dc fl ga hi id il in ia ks ky la me md ma mi mn ms mo mt ne nv nh nj nm ny nc nd " +
+    "oh ok or pa ri sc sd tn tx ut vt va wa wv wi wy").split(" ")
+);
+
+const titleCase = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+/**
+ * A readable merchant name from a raw bank descriptor, e.g.
+ * "SQ *BLUE BOTTLE 0423 OAKLAND CA" → "Blue Bottle". Drops bank and processor
+ * prefixes, reference codes after a "*", card suffixes, and everything from
+ * the store number on (which is where the location usually starts).
+ */
+export function cleanMerchant(raw: string) {
+  let s = raw.trim();
+  for (let prefix = BANK_PREFIX.exec(s); prefix; prefix = BANK_PREFIX.exec(s)) s = s.slice(prefix[0].length);
+  s = s.replace(PROCESSOR_PREFIX, "");
+
+  // "AMAZON.COM*2K4L81", "UBER *TRIP": what follows the star is a reference.
+  const star = s.indexOf("*");
+  if (star > 0) s = s.slice(0, star);
+
+  // Fixed-width exports pad the merchant, city and state into columns.
+  s = s.split(/\s{2,}/)[0] ?? "";
+  s = s.replace(CARD_SUFFIX, "");
+
+  let words = s.split(/\s+/).filter(Boolean);
+  const number = words.findIndex((w, i) => i > 0 && /\d/.test(w));
+  if (number !== -1) words = words.slice(0, STORE_WORD.test(words[number - 1]!) && number > 1 ? number - 1 : number);
+  if (words.length > 1 && US_STATES.has(words[words.length - 1]!.toLowerCase())) words.pop();
+
+  const cleaned = words
+    .map((w) => w.replace(/^www\./i, "").replace(/\.(com|net|org|co|io)$/i, "").replace(/^[#\-.,]+|[#\-.,]+$/g, ""))
+    .filter(Boolean)
+    .map(titleCase)
+    .join(" ");
+  return cleaned || raw.trim();
+}
+
+/** Groups charges from the same merchant regardless of store numbers, locations or reference codes. */
+export function merchantKey(name: string) {
+  return normalizeName(cleanMerchant(name));
+}
+
+/* =========================
+   Merchant Directory
+========================= */
+
+const builtin = (id: string, name: string, aliases: string[], category: string): Merchant => ({
+  id: `builtin-${id}`,
+  userId: null,
+  name,
+  aliases,
+  category,
+});
+
+// Seeded knowledge for common chains; users add their own entries, which win.
+export const BUILTIN_MERCHANTS: Merchant[] = [
+  builtin("amazon", "Amazon", ["amazon", "amzn", "amzn mktp", "amazon mktplace"], "Shopping"),
+  builtin("target", "Target", ["target"], "Shopping"),
+  builtin("walmart", "Walmart", ["walmart", "wal mart", "wm supercenter"], "Shopping"),
+  builtin("costco", "Costco", ["costco", "costco whse"], "Groceries"),
+  builtin("whole-foods", "Whole Foods", ["whole foods", "wholefds", "wfm"], "Groceries"),
+  builtin("trader-joes", "Trader Joe's", ["trader joe", "trader joe s", "trader joes"], "Groceries"),
+  builtin("starbucks", "Starbucks", ["starbucks", "sbux"], "Coffee"),
+  builtin("blue-bottle", "Blue Bottle", ["blue bottle"], "Coffee"),
+  builtin("dunkin", "Dunkin'", ["dunkin"], "Coffee"),
+  builtin("chipotle", "Chipotle", ["chipotle"], "Dining"),
+  builtin("mcdonalds", "McDonald's", ["mcdonald", "mcdonalds", "mcdonald s"], "Dining"),
+  builtin("shell", "Shell", ["shell", "shell oil", "shell service"], "Gas"),
+  builtin("uber", "Uber", ["uber"], "Transport"),
+  builtin("lyft", "Lyft", ["lyft"], "Transport"),
+  builtin("netflix", "Netflix", ["netflix"], "Subscriptions"),
+  builtin("spotify", "Spotify", ["spotify"], "Subscriptions"),
+];
+
+/** The user's own entries followed by the built-in ones. */
+export async function merchantDirectory(store: Store, userId: string) {
+  const own = await store.merchants.find((m) => m.userId === userId);
+  return [...own, ...BUILTIN_MERCHANTS];
+}
+
+export type ResolvedMerchant = { name: string; entry: Merchant | null };
+
+/**
+ * The canonical merchant for a descriptor. An entry matches when its name or
+ * an alias is the cleaned descriptor or its first words ("amzn mktp" matches
+ * "AMZN Mktp US*2K4L81"); the longest match wins, and among equals the entry
+ * listed first (the user's own). Unknown merchants get their cleaned name.
+ */
+export function resolveMerchant(raw: string, directory: Merchant[]): ResolvedMerchant {
+  const key = merchantKey(raw);
+  if (!key) return { name: "", entry: null };
+
+  let best: { entry: Merchant; length: number } | null = null;
+  for (const entry of directory) {
+    for (const alias of [entry.name, ...entry.aliases].map(normalizeName)) {
+      if (!alias || (key !== alias && !key.startsWith(`${alias} `))) continue;
+      if (!best || alias.length > best.length) best = { entry, length: alias.length };
+    }
+  }
+  return best ? { name: best.entry.name, entry: best.entry } : { name: cleanMerchant(raw), entry: null };
+}
+
+/* =========================
+   Top Merchants
+========================= */
+
+export type MerchantSpend = {
+  merchant: string;
+  category: string; // where most of the spending went
+  spend: number; // positive
+  visits: number; // transactions; a split one counts once
+  averageSpend: number;
+  lastDate: string; // YYYY-MM-DD
+};
+
+/** Spending per merchant, biggest first by total spend or by number of visits. Income is left out. */
+export function topMerchants(transactions: Transaction[], sort: "spend" | "visits", limit: number): MerchantSpend[] {
+  type Group = { ids: Set<string>; spend: number; byCategory: Map<string, number>; lastDate: string };
+  const groups = new Map<string, Group>();
+  for (const t of allocate(transactions)) {
+    if (t.amount >= 0) continue;
+    const merchant = t.merchant || t.name;
+    const group = groups.get(merchant) ?? { ids: new Set(), spend: 0, byCategory: new Map(), lastDate: "" };
+    const category = t.category || "Uncategorized";
+    group.ids.add(t.id);
+    group.spend += Math.abs(t.amount);
+    group.byCategory.set(category, (group.byCategory.get(category) ?? 0) + Math.abs(t.amount));
+    if (t.date > group.lastDate) group.lastDate = t.date;
+    groups.set(merchant, group);
+  }
+
+  const merchants = Array.from(groups, ([merchant, g]) => ({
+    merchant,
+    category: Array.from(g.byCategory).reduce((a, b) => (b[1] > a[1] ? b : a))[0],
+    spend: g.spend,
+    visits: g.ids.size,
+    averageSpend: g.spend / g.ids.size,
+    lastDate: g.lastDate,
+  }));
+  const bySpend = (a: MerchantSpend, b: MerchantSpend) => b.spend - a.spend;
+  const byVisits = (a: MerchantSpend, b: MerchantSpend) => b.visits - a.visits;
+  const [first, second] = sort === "spend" ? [bySpend, byVisits] : [byVisits, bySpend];
+  return merchants.sort((a, b) => first(a, b) || second(a, b) || a.merchant.localeCompare(b.merchant)).slice(0, limit);
+}
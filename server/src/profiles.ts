@@ -0,0 +1,251 @@
+import { parse } from "csv-parse/sync";
+import type { RejectedRow } from "./imports";
+import type { AccountType, ColumnMapping, ImportProfile, SignRule } from "./types";
+
+/* =========================
+   Built-in Profiles
+========================= */
+
+export const BUILTIN_PROFILES: ImportProfile[] = [
+  {
+    id: "chase",
+    userId: null,
+    name: "Chase (credit card)",
+    delimiter: ",",
+    dateFormat: "MM/DD/YYYY",
+    sign: "signed",
+    columns: { date: "Transaction Date", name: "Description", amount: "Amount", category: "Category" },
+    signature: ["Transaction Date", "Post Date", "Description", "Category", "Type", "Amount"],
+  },
+  {
+    id: "chase-checking",
+    userId: null,
+    name: "Chase (checking/savings)",
+    delimiter: ",",
+    dateFormat: "MM/DD/YYYY",
+    sign: "signed",
+    columns: { date: "Posting Date", name: "Description", amount: "Amount" },
+    signature: ["Details", "Posting Date", "Description", "Amount", "Type", "Balance"],
+  },
+  {
+    id: "amex",
+    userId: null,
+    name: "American Express",
+    delimiter: ",",
+    dateFormat: "MM/DD/YYYY",
+    sign: "inverted",
+    columns: { date: "Date", name: "Description", amount: "Amount", category: "Category" },
+    signature: ["Date", "Description", "Amount", "Appears On Your Statement As"],
+  },
+  {
+    id: "capital-one",
+    userId: null,
+    name: "Capital One",
+    delimiter: ",",
+    dateFormat: "YYYY-MM-DD",
+    sign: "signed", // unused: Debit/Credit columns carry the sign
+    columns: { date: "Transaction Date", name: "Description", debit: "Debit", credit: "Credit", category: "Category" },
+    signature: ["Transaction Date", "Posted Date", "Card No.", "Description", "Category", "Debit", "Credit"],
+  },
+  {
+    id: "discover",
+    userId: null,
+    name: "Discover",
+    delimiter: ",",
+    dateFormat: "MM/DD/YYYY",
+    sign: "inverted",
+    columns: { date: "Trans. Date", name: "Description", amount: "Amount", category: "Category" },
+    signature: ["Trans. Date", "Post Date", "Description", "Amount", "Category"],
+  },
+  {
+    id: "generic",
+    userId: null,
+    name: "Generic (date, name, amount)",
+    delimiter: ",",
+    dateFormat: "YYYY-MM-DD",
+    sign: "auto",
+    columns: {
+      date: ["date", "transactiondate", "transaction date", "trans. date"],
+      name: ["name", "description", "merchant", "merchant name"],
+      amount: ["amount", "transaction amount", "amount (usd)"],
+      category: "category",
+    },
+    signature: [],
+  },
+];
+
+/* =========================
+   Header Matching
+========================= */
+
+const key = (header: string) => header.trim().toLowerCase();
+
+/** Maps each mapping field to the actual header it resolved to in this file. */
+export function resolveColumns(columns: ColumnMapping, headers: string[]) {
+  const byKey = new Map(headers.map((h) => [key(h), h]));
+  const pick = (ref: string | string[] | undefined) =>
+    [ref ?? []].flat().map((h) => byKey.get(key(h))).find((h) => h !== undefined);
+
+  return {
+    date: pick(columns.date),
+    name: pick(columns.name),
+    amount: pick(columns.amount),
+    debit: pick(columns.debit),
+    credit: pick(columns.credit),
+    category: pick(columns.category),
+  };
+}
+
+export type ResolvedColumns = ReturnType<typeof resolveColumns>;
+
+function fits(profile: ImportProfile, headers: string[]) {
+  const keys = new Set(headers.map(key));
+  if (!profile.signature.every((h) => keys.has(key(h)))) return false;
+
+  const cols = resolveColumns(profile.columns, headers);
+  return Boolean(cols.date && (cols.amount || cols.debit || cols.credit));
+}
+
+export function readHeaders(csvText: string, delimiter: string): string[] {
+  const [first] = parse(csvText, { delimiter, to_line: 1, trim: true, bom: true }) as string[][];
+  return first ?? [];
+}
+
+export const DELIMITERS = [",", ";", "\t", "|"];
+
+/** Guesses the delimiter of an unknown file as the one that splits its header line the most. */
+export function sniffDelimiter(csvText: string): string {
+  let best = { delimiter: ",", count: 0 };
+  for (const delimiter of DELIMITERS) {
+    try {
+      const count = readHeaders(csvText, delimiter).length;
+      if (count > best.count) best = { delimiter, count };
+    } catch {}
+  }
+  return best.delimiter;
+}
+
+/**
+ * Picks the profile whose signature best matches the file's headers. User
+ * profiles win ties over built-ins, and "generic" (empty signature) is last resort.
+ */
+export function detectProfile(csvText: string, profiles: ImportProfile[]): ImportProfile | undefined {
+  let best: ImportProfile | undefined;
+
+  for (const p of profiles) {
+    let headers: string[];
+    try {
+      headers = readHeaders(csvText, p.delimiter);
+    } catch {
+      continue;
+    }
+    if (!fits(p, headers)) continue;
+
+    const better =
+      !best ||
+      p.signature.length > best.signature.length ||
+      (p.signature.length === best.signature.length && p.userId !== null && best.userId === null);
+    if (better) best = p;
+  }
+
+  return best;
+}
+
+/* =========================
+   Value Parsing
+========================= */
+
+export function normalizeAmount(raw: string) {
+  const s = String(raw).trim();
+  const neg = s.startsWith("(") && s.endsWith(")");
+  const cleaned = s.replace(/[,$()]/g, "");
+  const n = Number(cleaned);
+  return neg ? -n : n;
+}
+
+/* =========================
+   Row Mapping
+========================= */
+
+export type ParsedRow = {
+  date: string; // as written in the file; the importer normalizes a whole file's dates at once, see dates.ts
+  name: string;
+  amount: number; // as written in the file; see applySignRule()
+  bankCategory: string;
+};
+
+// Why a row couldn't be read; the importer adds the line number.
+export type RowProblem = Omit<RejectedRow, "row">;
+
+/**
+ * Reads one CSV record through a profile's resolved columns, or says why it
+ * can't: a missing or non-numeric amount. Debit/Credit columns are combined as
+ * credit - debit, so they come out signed.
+ */
+export function readRow(cols: ResolvedColumns, r: Record<string, string>): ParsedRow | RowProblem {
+  const rawDate = cols.date ? r[cols.date] : undefined;
+  const name = String((cols.name && r[cols.name]) ?? "").trim();
+  const bankCategory = String((cols.category && r[cols.category]) ?? "").trim();
+
+  let amount: number;
+  let rawAmount: string;
+  if (cols.amount) {
+    rawAmount = r[cols.amount] ?? "";
+    if (rawAmount === "") return { field: "amount", value: "", reason: "Missing amount" };
+    amount = normalizeAmount(rawAmount);
+  } else {
+    const rawDebit = (cols.debit && r[cols.debit]) || "";
+    const rawCredit = (cols.credit && r[cols.credit]) || "";
+    if (!rawDebit && !rawCredit) return { field: "amount", value: "", reason: "Missing debit or credit" };
+    rawAmount = rawDebit || rawCredit;
+    const debit = rawDebit ? Math.abs(normalizeAmount(rawDebit)) : 0;
+    const credit = rawCredit ? Math.abs(normalizeAmount(rawCredit)) : 0;
+    amount = credit - debit;
+  }
+
+  if (!Number.isFinite(amount)) return { field: "amount", value: rawAmount, reason: "Not a number" };
+
+  return {
+    date: String(rawDate ?? "").trim(),
+    name,
+    amount,
+    bankCategory,
+  };
+}
+
+/* =========================
+   Sign Rules
+========================= */
+
+export type SignOptions = {
+  accountType: AccountType | null;
+  override: "signed" | "inverted" | null;
+};
+
+/**
+ * Decides how to read the sign of every amount in a file:
+ * - debit/credit columns are already signed by readRow();
+ * - an explicit override or a profile's fixed convention wins next;
+ * - deposit accounts (checking/savings) export signed amounts, paychecks positive;
+ * - otherwise (credit cards, unknown) charges dominate a statement, so if most
+ *   amounts are positive the file lists charges as positive.
+ */
+export function chooseSignRule(
+  profile: ImportProfile,
+  cols: ResolvedColumns,
+  rows: ParsedRow[],
+  options: SignOptions
+): SignRule {
+  if (!cols.amount) return "debit-credit";
+  if (options.override) return options.override;
+  if (profile.sign !== "auto") return profile.sign;
+  if (options.accountType === "deposit") return "signed";
+
+  const positives = rows.filter((r) => r.amount > 0).length;
+  return positives > rows.length / 2 ? "inverted" : "signed";
+}
+
+/** Converts a file amount to our convention: +income, -expense. */
+export function applySignRule(rule: SignRule, amount: number) {
+  return rule === "inverted" ? -amount : amount;
+}
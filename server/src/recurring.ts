@@ -0,0 +1,139 @@
+import { daysInMonth, shiftMonth } from "./budgets";
+import { addDays, daysBetween } from "./dates";
+import { merchantKey } from "./merchants";
+import type { Transaction } from "./types";
+
+/* =========================
+   Cadences
+========================= */
+
+export type Cadence = "weekly" | "biweekly" | "monthly" | "annual";
+
+const CADENCES: Array<{ cadence: Cadence; days: number; tolerance: number; perYear: number; minCount: number }> = [
+  { cadence: "weekly", days: 7, tolerance: 2, perYear: 52, minCount: 3 },
+  { cadence: "biweekly", days: 14, tolerance: 2, perYear: 26, minCount: 3 },
+  { cadence: "monthly", days: 30.4, tolerance: 4, perYear: 12, minCount: 3 },
+  { cadence: "annual", days: 365, tolerance: 15, perYear: 1, minCount: 2 },
+];
+
+// Share of gaps (and of amounts) that must fit the pattern.
+const MIN_FIT = 0.7;
+// Amounts within this fraction of the typical amount count as the same charge.
+const AMOUNT_TOLERANCE = 0.2;
+
+// A price change is reported until the new price has been charged this many times.
+const PRICE_CHANGE_RECENCY = 3;
+
+export function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+/* =========================
+   Detection
+========================= */
+
+export type RecurringSeries = {
+  merchant: string; // grouping key, see merchantKey() in merchants.ts
+  name: string; // most recent description as imported
+  category: string;
+  kind: "expense" | "income";
+  cadence: Cadence;
+  typicalAmount: number; // signed, median of the matching charges
+  lastAmount: number;
+  lastDate: string;
+  firstDate: string;
+  occurrences: number;
+  nextExpected: string; // YYYY-MM-DD
+  annualizedCost: number; // always positive
+  status: "active" | "missed"; // missed: nextExpected (plus grace) is behind the data
+  isNew: boolean; // first seen within the last three periods
+  priceChange: { previous: number; current: number; percent: number } | null;
+  transactionIds: string[];
+};
+
+/** The date a charge on `last` should recur next. */
+export function nextOccurrence(last: string, cadence: Cadence) {
+  if (cadence !== "monthly") return addDays(last, Math.round(CADENCES.find((c) => c.cadence === cadence)!.days));
+
+  // Same day next month, clamped to that month's length (Jan 31 → Feb 28).
+  const month = shiftMonth(last.slice(0, 7), 1);
+  const day = Math.min(Number(last.slice(8, 10)), daysInMonth(month));
+  return `${month}-${String(day).padStart(2, "0")}`;
+}
+
+function detectSeries(txs: Transaction[], asOf: string): RecurringSeries | null {
+  const sorted = [...txs].sort((a, b) => a.date.localeCompare(b.date));
+  const typical = median(sorted.map((t) => t.amount));
+  const sameAmount = sorted.filter(
+    (t) => Math.abs(t.amount - typical) <= Math.max(Math.abs(typical) * AMOUNT_TOLERANCE, 1)
+  );
+  if (sameAmount.length < sorted.length * MIN_FIT) return null;
+
+  const gaps = sameAmount.slice(1).map((t, i) => daysBetween(sameAmount[i]!.date, t.date));
+  if (gaps.length === 0) return null;
+  const gap = median(gaps);
+
+  const fit = CADENCES.find((c) => Math.abs(gap - c.days) <= c.tolerance);
+  if (!fit || sameAmount.length < fit.minCount) return null;
+  if (gaps.filter((g) => Math.abs(g - fit.days) <= fit.tolerance).length < gaps.length * MIN_FIT) return null;
+
+  const last = sameAmount[sameAmount.length - 1]!;
+  const first = sameAmount[0]!;
+  const nextExpected = nextOccurrence(last.date, fit.cadence);
+  const typicalAmount = median(sameAmount.map((t) => t.amount));
+
+  // The latest price may have held for a few charges already; compare against
+  // the amount before that run. Cent-level noise (tax rounding, FX) is ignored.
+  let runStart = sameAmount.length - 1;
+  while (runStart > 0 && Math.abs(sameAmount[runStart - 1]!.amount - last.amount) < 0.5) runStart--;
+  const prev = runStart > 0 ? sameAmount[runStart - 1]! : null;
+  const delta = prev ? Math.abs(last.amount) - Math.abs(prev.amount) : 0;
+  const priceChange =
+    prev && sameAmount.length - runStart <= PRICE_CHANGE_RECENCY && Math.abs(delta) / Math.abs(prev.amount) >= 0.02
+      ? { previous: prev.amount, current: last.amount, percent: delta / Math.abs(prev.amount) }
+      : null;
+
+  return {
+    merchant: merchantKey(last.name),
+    name: last.name,
+    category: last.category,
+    kind: typicalAmount < 0 ? "expense" : "income",
+    cadence: fit.cadence,
+    typicalAmount,
+    lastAmount: last.amount,
+    lastDate: last.date,
+    firstDate: first.date,
+    occurrences: sameAmount.length,
+    nextExpected,
+    annualizedCost: Math.abs(last.amount) * fit.perYear, // at the current price
+    status: addDays(nextExpected, fit.tolerance) < asOf ? "missed" : "active",
+    isNew: daysBetween(first.date, asOf) <= fit.days * 3,
+    priceChange,
+    transactionIds: sameAmount.map((t) => t.id),
+  };
+}
+
+/**
+ * Finds recurring charges and income in a user's history. `asOf` is the date
+ * the data runs up to (usually the latest transaction), so a series only
+ * counts as missed if a newer statement should have shown it.
+ */
+export function detectRecurring(transactions: Transaction[], asOf: string): RecurringSeries[] {
+  const groups = new Map<string, Transaction[]>();
+  for (const t of transactions) {
+    const key = merchantKey(t.name);
+    if (!key || t.amount === 0) continue;
+    const groupKey = `${t.amount < 0 ? "-" : "+"}${key}`;
+    groups.set(groupKey, [...(groups.get(groupKey) ?? []), t]);
+  }
+
+  const series: RecurringSeries[] = [];
+  for (const txs of groups.values()) {
+    const found = detectSeries(txs, asOf);
+    if (found) series.push(found);
+  }
+
+  return series.sort((a, b) => b.annualizedCost - a.annualizedCost);
+}
@@ -0,0 +1,139 @@
+import { Router } from "express";
+import crypto from "node:crypto";
+import { z } from "zod";
+import { currentUserId } from "../auth";
+import { fingerprint } from "../imports";
+import type { Store } from "../store";
+import type { Account } from "../types";
+import { invalid } from "../validation";
+
+/* =========================
+   Validation
+========================= */
+
+const accountSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  kind: z.enum(["checking", "savings", "credit-card", "cash"]),
+  number: z.string().trim().min(1).nullable().default(null),
+  openingBalance: z.number().default(0),
+});
+
+/* =========================
+   Accounts
+========================= */
+
+export function accountsRouter(store: Store) {
+  const router = Router();
+
+  async function findClash(userId: string, name: string, exceptId = "") {
+    const [clash] = await store.accounts.find(
+      (a) => a.userId === userId && a.id !== exceptId && a.name.toLowerCase() === name.toLowerCase()
+    );
+    return clash;
+  }
+
+  // Balances count every transaction, transfers included: they move real money.
+  router.get("/", async (req, res) => {
+    const userId = currentUserId(req);
+    const [accounts, transactions] = await Promise.all([
+      store.accounts.find((a) => a.userId === userId),
+      store.transactions.find((t) => t.userId === userId && t.accountId !== null),
+    ]);
+
+    const totals = new Map<string, { sum: number; count: number }>();
+    for (const t of transactions) {
+      const total = totals.get(t.accountId!) ?? { sum: 0, count: 0 };
+      total.sum += t.amount;
+      total.count++;
+      totals.set(t.accountId!, total);
+    }
+
+    res.json(
+      accounts
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((a) => ({
+          ...a,
+          balance: a.openingBalance + (totals.get(a.id)?.sum ?? 0),
+          transactionCount: totals.get(a.id)?.count ?? 0,
+        }))
+    );
+  });
+
+  router.post("/", async (req, res) => {
+    const parsed = accountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalid(res, "Invalid account", parsed.error);
+    }
+
+    const userId = currentUserId(req);
+    if (await findClash(userId, parsed.data.name)) {
+      return res.status(409).json({ error: "An account with that name already exists" });
+    }
+
+    const account: Account = {
+      id: crypto.randomUUID(),
+      userId,
+      ...parsed.data,
+      createdAt: new Date().toISOString(),
+    };
+
+    await store.accounts.insert([account]);
+    res.status(201).json(account);
+  });
+
+  // Renaming also relabels the account's transactions and import batches, and
+  // refingerprints the transactions so re-importing a statement still finds them.
+  router.patch("/:id", async (req, res) => {
+    const userId = currentUserId(req);
+    const account = await store.accounts.get(req.params.id);
+    if (!account || account.userId !== userId) {
+      return res.status(404).json({ error: "Account not found" });
+    }
+
+    const { id: _id, userId: _userId, createdAt: _createdAt, ...current } = account;
+    const parsed = accountSchema.safeParse({ ...current, ...req.body });
+    if (!parsed.success) {
+      return invalid(res, "Invalid account", parsed.error);
+    }
+    if (await findClash(userId, parsed.data.name, account.id)) {
+      return res.status(409).json({ error: "An account with that name already exists" });
+    }
+
+    if (parsed.data.name !== account.name) {
+      const [transactions, batches] = await Promise.all([
+        store.transactions.find((t) => t.accountId === account.id),
+        store.importBatches.find((b) => b.accountId === account.id),
+      ]);
+      await store.transactions.updateMany(
+        transactions.map((t) => {
+          const account = parsed.data.name;
+          return { id: t.id, account, fingerprint: fingerprint({ ...t, account }) };
+        })
+      );
+      await store.importBatches.updateMany(batches.map((b) => ({ id: b.id, account: parsed.data.name })));
+    }
+
+    res.json(await store.accounts.update(account.id, parsed.data));
+  });
+
+  // Accounts with transactions can't be deleted; undo their imports first.
+  router.delete("/:id", async (req, res) => {
+    const userId = currentUserId(req);
+    const account = await store.accounts.get(req.params.id);
+    if (!account || account.userId !== userId) {
+      return res.status(404).json({ error: "Account not found" });
+    }
+
+    const [used] = await store.transactions.find((t) => t.accountId === account.id);
+    if (used) {
+      return res.status(409).json({ error: "Account still has transactions" });
+    }
+
+    await store.accounts.remove((a) => a.id === account.id);
+    const goals = await store.goals.find((g) => g.accountId === account.id);
+    await store.goals.updateMany(goals.map((g) => ({ id: g.id, accountId: null })));
+    res.json({ ok: true });
+  });
+
+  return router;
+}
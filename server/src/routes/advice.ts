@@ -0,0 +1,124 @@
+import { Router } from "express";
+import crypto from "node:crypto";
+import { z } from "zod";
+import { ADVICE_RULES, resolveThresholds } from "../advice";
+import { currentUserId } from "../auth";
+import type { Store } from "../store";
+import type { AdviceDismissal } from "../types";
+import { invalid, invalidField } from "../validation";
+
+/* =========================
+   Validation
+========================= */
+
+const settingSchema = z.object({
+  enabled: z.boolean().exactOptional(),
+  thresholds: z.record(z.string(), z.number().nonnegative()).exactOptional(),
+});
+
+const dismissalSchema = z.object({
+  adviceId: z.string().min(1, "adviceId is required"),
+  until: z.iso.date().nullable().default(null), // null dismisses for good
+});
+
+/* =========================
+   Advice Rules & Dismissals
+========================= */
+
+export function adviceRouter(store: Store) {
+  const router = Router();
+
+  router.get("/rules", async (req, res) => {
+    const userId = currentUserId(req);
+    const settings = await store.adviceSettings.find((s) => s.userId === userId);
+
+    res.json(
+      ADVICE_RULES.map((rule) => {
+        const setting = settings.find((s) => s.ruleId === rule.id);
+        return {
+          id: rule.id,
+          name: rule.name,
+          description: rule.description,
+          enabled: setting?.enabled ?? true,
+          defaults: rule.defaults,
+          thresholds: resolveThresholds(rule, setting),
+        };
+      })
+    );
+  });
+
+  // Thresholds are merged into the user's existing overrides; unknown names are rejected.
+  router.patch("/rules/:ruleId", async (req, res) => {
+    const rule = ADVICE_RULES.find((r) => r.id === req.params.ruleId);
+    if (!rule) {
+      return res.status(404).json({ error: "Advice rule not found" });
+    }
+
+    const parsed = settingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalid(res, "Invalid advice rule settings", parsed.error);
+    }
+    const unknown = Object.keys(parsed.data.thresholds ?? {}).filter((name) => !(name in rule.defaults));
+    if (unknown.length > 0) {
+      return invalidField(res, "Invalid advice rule settings", "thresholds", `Unknown thresholds: ${unknown.join(", ")}`);
+    }
+
+    const userId = currentUserId(req);
+    const [existing] = await store.adviceSettings.find((s) => s.userId === userId && s.ruleId === rule.id);
+    const setting = {
+      id: existing?.id ?? crypto.randomUUID(),
+      userId,
+      ruleId: rule.id,
+      enabled: parsed.data.enabled ?? existing?.enabled ?? true,
+      thresholds: { ...existing?.thresholds, ...parsed.data.thresholds },
+    };
+
+    if (existing) await store.adviceSettings.update(existing.id, setting);
+    else await store.adviceSettings.insert([setting]);
+    res.json({ ...setting, thresholds: resolveThresholds(rule, setting) });
+  });
+
+  // Back to the defaults.
+  router.delete("/rules/:ruleId", async (req, res) => {
+    const userId = currentUserId(req);
+    await store.adviceSettings.remove((s) => s.userId === userId && s.ruleId === req.params.ruleId);
+    res.json({ ok: true });
+  });
+
+  router.get("/dismissals", async (req, res) => {
+    const userId = currentUserId(req);
+    const dismissals = await store.adviceDismissals.find((d) => d.userId === userId);
+    res.json(dismissals.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+  });
+
+  // Dismissing an item again replaces its earlier dismissal (e.g. snooze → forever).
+  router.post("/dismissals", async (req, res) => {
+    const parsed = dismissalSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalid(res, "Invalid dismissal", parsed.error);
+    }
+
+    const userId = currentUserId(req);
+    const dismissal: AdviceDismissal = {
+      id: crypto.randomUUID(),
+      userId,
+      ...parsed.data,
+      createdAt: new Date().toISOString(),
+    };
+
+    await store.adviceDismissals.remove((d) => d.userId === userId && d.adviceId === dismissal.adviceId);
+    await store.adviceDismissals.insert([dismissal]);
+    res.status(201).json(dismissal);
+  });
+
+  router.delete("/dismissals/:id", async (req, res) => {
+    const userId = currentUserId(req);
+    const removed = await store.adviceDismissals.remove((d) => d.id === req.params.id && d.userId === userId);
+    if (!removed) {
+      return res.status(404).json({ error: "Dismissal not found" });
+    }
+    res.json({ ok: true });
+  });
+
+  return router;
+}
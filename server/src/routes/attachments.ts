@@ -0,0 +1,76 @@
+import { Router } from "express";
+import { attachmentPath, attachmentUpload, removeAttachments } from "../attachments";
+import { currentUserId } from "../auth";
+import type { Store } from "../store";
+import type { Attachment, Transaction } from "../types";
+import { invalidField } from "../validation";
+
+/* =========================
+   Transaction Attachments
+========================= */
+
+export function attachmentsRouter(store: Store) {
+  const router = Router();
+
+  // Checked before multer runs, so nothing is written for someone else's transaction.
+  router.use("/transactions/:id/attachments", async (req, res, next) => {
+    const tx = await store.transactions.get(req.params.id);
+    if (!tx || tx.userId !== currentUserId(req)) {
+      return res.status(404).json({ error: "Transaction not found" });
+    }
+    res.locals.transaction = tx;
+    next();
+  });
+
+  router.get("/transactions/:id/attachments", async (req, res) => {
+    const tx: Transaction = res.locals.transaction;
+    const attachments = await store.attachments.find((a) => a.transactionId === tx.id);
+    res.json(attachments.sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+  });
+
+  // Multipart upload with the file in `file`: an image or PDF up to 10 MB.
+  router.post("/transactions/:id/attachments", attachmentUpload.single("file"), async (req, res) => {
+    if (!req.file) {
+      return invalidField(res, "Invalid attachment", "file", "Attach an image or PDF in the 'file' field");
+    }
+
+    const tx: Transaction = res.locals.transaction;
+    const attachment: Attachment = {
+      id: req.file.filename,
+      userId: tx.userId,
+      transactionId: tx.id,
+      fileName: req.file.originalname,
+      mimeType: req.file.mimetype,
+      size: req.file.size,
+      createdAt: new Date().toISOString(),
+    };
+    await store.attachments.insert([attachment]);
+    res.status(201).json(attachment);
+  });
+
+  // Always a download, never rendered inline, whatever the uploaded type claims.
+  router.get("/transactions/:id/attachments/:attachmentId", async (req, res) => {
+    const attachment = await store.attachments.get(req.params.attachmentId);
+    if (!attachment || attachment.transactionId !== req.params.id) {
+      return res.status(404).json({ error: "Attachment not found" });
+    }
+
+    const headers = { "Content-Type": attachment.mimeType, "X-Content-Type-Options": "nosniff" };
+    res.download(attachmentPath(attachment), attachment.fileName, { headers }, (err) => {
+      if (err && !res.headersSent) res.status(404).json({ error: "Attachment file is missing" });
+    });
+  });
+
+  router.delete("/transactions/:id/attachments/:attachmentId", async (req, res) => {
+    const removed = await removeAttachments(
+      store,
+      (a) => a.id === req.params.attachmentId && a.transactionId === req.params.id
+    );
+    if (!removed) {
+      return res.status(404).json({ error: "Attachment not found" });
+    }
+    res.json({ ok: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,136 @@
+import { Router } from "express";
+import bcrypt from "bcrypt";
+import crypto from "node:crypto";
+import { z } from "zod";
+import { defaultRules } from "../rules";
+import { REFRESH_TOKEN_TTL_DAYS, signAccessToken, signRefreshToken, verifyToken } from "../auth";
+import type { Store } from "../store";
+import type { User } from "../types";
+import { invalid } from "../validation";
+
+/* =========================
+   Helpers
+========================= */
+
+const BCRYPT_ROUNDS = 12;
+
+const credentialsSchema = z.object({
+  email: z.email().transform((e) => e.toLowerCase()),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+function publicUser(user: User) {
+  return { id: user.id, email: user.email };
+}
+
+export function authRouter(store: Store) {
+  const router = Router();
+
+  // Registrations run one at a time: checking for the email and inserting the
+  // user are separate awaits, and two requests for the same email (or two
+  // "first users" claiming unowned data) must not both pass the check.
+  let registering: Promise<unknown> = Promise.resolve();
+  function serialized<T>(task: () => Promise<T>): Promise<T> {
+    const run = registering.catch(() => {}).then(task);
+    registering = run;
+    return run;
+  }
+
+  async function issueTokens(user: User) {
+    const tokenId = crypto.randomUUID();
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    await store.refreshTokens.insert([{ id: tokenId, userId: user.id, expiresAt: expiresAt.toISOString() }]);
+
+    return {
+      user: publicUser(user),
+      accessToken: signAccessToken(user.id),
+      refreshToken: signRefreshToken(user.id, tokenId),
+    };
+  }
+
+  /* =========================
+     Register
+  ========================= */
+
+  router.post("/register", async (req, res) => {
+    const parsed = credentialsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalid(res, "Invalid credentials", parsed.error);
+    }
+
+    const { email, password } = parsed.data;
+    const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS);
+
+    const user = await serialized(async () => {
+      const existing = await store.users.find((u) => u.email === email);
+      if (existing.length > 0) return null;
+
+      const isFirstUser = (await store.users.all()).length === 0;
+      const user: User = { id: crypto.randomUUID(), email, passwordHash, createdAt: new Date().toISOString() };
+      await store.users.insert([user]);
+      await store.categoryRules.insert(defaultRules(user.id));
+
+      // Data saved before accounts existed belongs to whoever sets the server up.
+      if (isFirstUser) {
+        const unowned = await store.transactions.find((t) => !t.userId);
+        await store.transactions.updateMany(unowned.map((t) => ({ id: t.id, userId: user.id })));
+      }
+      return user;
+    });
+
+    if (!user) {
+      return res.status(409).json({ error: "Email already registered" });
+    }
+    res.status(201).json(await issueTokens(user));
+  });
+
+  /* =========================
+     Login
+  ========================= */
+
+  router.post("/login", async (req, res) => {
+    const parsed = credentialsSchema.safeParse(req.body);
+    const [user] = parsed.success ? await store.users.find((u) => u.email === parsed.data.email) : [];
+
+    if (!parsed.success || !user || !(await bcrypt.compare(parsed.data.password, user.passwordHash))) {
+      return res.status(401).json({ error: "Invalid email or password" });
+    }
+
+    res.json(await issueTokens(user));
+  });
+
+  /* =========================
+     Refresh
+  ========================= */
+
+  // Refresh tokens are single-use: each refresh revokes the presented token.
+  router.post("/refresh", async (req, res) => {
+    const parsed = refreshSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalid(res, "Invalid refresh request", parsed.error);
+    }
+
+    const payload = verifyToken(parsed.data.refreshToken, "refresh");
+    const stored = payload?.jti ? await store.refreshTokens.get(payload.jti) : undefined;
+
+    if (!payload || !stored || stored.userId !== payload.sub) {
+      return res.status(401).json({ error: "Invalid refresh token" });
+    }
+
+    await store.refreshTokens.remove((t) => t.id === stored.id || t.expiresAt < new Date().toISOString());
+
+    const user = await store.users.get(stored.userId);
+    if (!user) {
+      return res.status(401).json({ error: "Invalid refresh token" });
+    }
+
+    res.json(await issueTokens(user));
+  });
+
+  return router;
+}
@@ -0,0 +1,95 @@
+import { Router } from "express";
+import crypto from "node:crypto";
+import { z } from "zod";
+import { currentUserId } from "../auth";
+import type { Store } from "../store";
+import type { Budget } from "../types";
+import { invalid } from "../validation";
+
+/* =========================
+   Validation
+========================= */
+
+const budgetSchema = z.object({
+  category: z.string().trim().min(1, "Category is required"),
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Expected YYYY-MM")
+    .nullable()
+    .default(null),
+  amount: z.number().positive("Amount must be positive"),
+  rollover: z.boolean().default(false),
+});
+
+/* =========================
+   Budgets
+========================= */
+
+export function budgetsRouter(store: Store) {
+  const router = Router();
+
+  async function findClash(userId: string, category: string, month: string | null, exceptId = "") {
+    const [clash] = await store.budgets.find(
+      (b) => b.userId === userId && b.id !== exceptId && b.category === category && b.month === month
+    );
+    return clash;
+  }
+
+  router.get("/", async (req, res) => {
+    const userId = currentUserId(req);
+    const budgets = await store.budgets.find((b) => b.userId === userId);
+    res.json(budgets.sort((a, b) => a.category.localeCompare(b.category) || (a.month ?? "").localeCompare(b.month ?? "")));
+  });
+
+  router.post("/", async (req, res) => {
+    const parsed = budgetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalid(res, "Invalid budget", parsed.error);
+    }
+
+    const userId = currentUserId(req);
+    if (await findClash(userId, parsed.data.category, parsed.data.month)) {
+      return res.status(409).json({ error: "A budget for that category and month already exists" });
+    }
+
+    const budget: Budget = {
+      id: crypto.randomUUID(),
+      userId,
+      ...parsed.data,
+      createdAt: new Date().toISOString(),
+    };
+
+    await store.budgets.insert([budget]);
+    res.status(201).json(budget);
+  });
+
+  router.patch("/:id", async (req, res) => {
+    const userId = currentUserId(req);
+    const budget = await store.budgets.get(req.params.id);
+    if (!budget || budget.userId !== userId) {
+      return res.status(404).json({ error: "Budget not found" });
+    }
+
+    const { id: _id, userId: _userId, createdAt: _createdAt, ...current } = budget;
+    const parsed = budgetSchema.safeParse({ ...current, ...req.body });
+    if (!parsed.success) {
+      return invalid(res, "Invalid budget", parsed.error);
+    }
+    if (await findClash(userId, parsed.data.category, parsed.data.month, budget.id)) {
+      return res.status(409).json({ error: "A budget for that category and month already exists" });
+    }
+
+    res.json(await store.budgets.update(budget.id, parsed.data));
+  });
+
+  router.delete("/:id", async (req, res) => {
+    const userId = currentUserId(req);
+    const removed = await store.budgets.remove((b) => b.id === req.params.id && b.userId === userId);
+    if (!removed) {
+      return res.status(404).json({ error: "Budget not found" });
+    }
+    res.json({ ok: true });
+  });
+
+  return router;
+}
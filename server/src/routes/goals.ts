@@ -0,0 +1,120 @@
+import { Router } from "express";
+import crypto from "node:crypto";
+import { z } from "zod";
+import { currentUserId } from "../auth";
+import { goalProgress, savingsPace } from "../goals";
+import { resolveSettings } from "../settings";
+import type { Store } from "../store";
+import type { Goal } from "../types";
+import { invalid } from "../validation";
+
+/* =========================
+   Validation
+========================= */
+
+const goalSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    targetAmount: z.number().positive("Target must be positive"),
+    targetDate: z.iso.date().nullable().default(null),
+    accountId: z.string().min(1).nullable().default(null),
+    category: z.string().trim().min(1).nullable().default(null),
+    startingAmount: z.number().nonnegative().default(0),
+    startDate: z.iso.date().exactOptional(),
+  })
+  .refine((g) => !(g.accountId && g.category), "Link a goal to an account or a category, not both");
+
+/* =========================
+   Savings Goals
+========================= */
+
+export function goalsRouter(store: Store) {
+  const router = Router();
+
+  async function ownsAccount(userId: string, accountId: string | null) {
+    if (accountId === null) return true;
+    const account = await store.accounts.get(accountId);
+    return account?.userId === userId;
+  }
+
+  // Each goal comes with its progress and a contribution plan, all measured
+  // against the same recent savings pace (returned alongside as `pace`).
+  router.get("/", async (req, res) => {
+    const userId = currentUserId(req);
+    const [goals, transactions, accounts, [settings]] = await Promise.all([
+      store.goals.find((g) => g.userId === userId),
+      store.transactions.find((t) => t.userId === userId),
+      store.accounts.find((a) => a.userId === userId),
+      store.settings.find((s) => s.userId === userId),
+    ]);
+
+    const today = new Date().toISOString().slice(0, 10);
+    const latest = transactions.reduce((max, t) => (t.date > max ? t.date : max), "");
+    const pace = savingsPace(
+      transactions.filter((t) => t.transferId === null),
+      latest || today,
+      resolveSettings(settings)
+    );
+
+    res.json({
+      pace,
+      goals: goals
+        .sort((a, b) => (a.targetDate ?? "9999").localeCompare(b.targetDate ?? "9999") || a.name.localeCompare(b.name))
+        .map((g) => ({ ...g, progress: goalProgress(g, transactions, accounts, pace, today) })),
+    });
+  });
+
+  router.post("/", async (req, res) => {
+    const parsed = goalSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalid(res, "Invalid goal", parsed.error);
+    }
+
+    const userId = currentUserId(req);
+    if (!(await ownsAccount(userId, parsed.data.accountId))) {
+      return res.status(404).json({ error: "Account not found" });
+    }
+
+    const now = new Date().toISOString();
+    const goal: Goal = {
+      id: crypto.randomUUID(),
+      userId,
+      ...parsed.data,
+      startDate: parsed.data.startDate ?? now.slice(0, 10),
+      createdAt: now,
+    };
+
+    await store.goals.insert([goal]);
+    res.status(201).json(goal);
+  });
+
+  router.patch("/:id", async (req, res) => {
+    const userId = currentUserId(req);
+    const goal = await store.goals.get(req.params.id);
+    if (!goal || goal.userId !== userId) {
+      return res.status(404).json({ error: "Goal not found" });
+    }
+
+    const { id: _id, userId: _userId, createdAt: _createdAt, ...current } = goal;
+    const parsed = goalSchema.safeParse({ ...current, ...req.body });
+    if (!parsed.success) {
+      return invalid(res, "Invalid goal", parsed.error);
+    }
+    if (!(await ownsAccount(userId, parsed.data.accountId))) {
+      return res.status(404).json({ error: "Account not found" });
+    }
+
+    res.json(await store.goals.update(goal.id, parsed.data));
+  });
+
+  router.delete("/:id", async (req, res) => {
+    const userId = currentUserId(req);
+    const removed = await store.goals.remove((g) => g.id === req.params.id && g.userId === userId);
+    if (!removed) {
+      return res.status(404).json({ error: "Goal not found" });
+    }
+    res.json({ ok: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,319 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { ADVICE_RULES, evaluateAdvice, resolveThresholds, type AdviceContext } from "../advice";
+import { currentUserId } from "../auth";
+import { budgetStatus, currentMonth, daysInMonth, monthsBetween, shiftMonth } from "../budgets";
+import { matchesFilter, parseFilter, type TransactionFilter } from "../filters";
+import { forecast, FORECAST_MAX_DAYS } from "../forecast";
+import { reportHtml, type Report } from "../exports";
+import { topMerchants } from "../merchants";
+import { detectRecurring } from "../recurring";
+import { expectedIncome, moneyFormatter, resolveSettings } from "../settings";
+import { allocate } from "../splits";
+import type { Store } from "../store";
+import { trends } from "../trends";
+import type { Transaction } from "../types";
+import { invalid, invalidField } from "../validation";
+
+/* =========================
+   Insights
+========================= */
+
+const forecastSchema = z.object({
+  days: z.coerce.number().int().min(1).max(FORECAST_MAX_DAYS).default(FORECAST_MAX_DAYS),
+});
+
+const merchantsSchema = z.object({
+  sort: z.enum(["spend", "visits"]).default("spend"),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+const trendsSchema = z.object({
+  interval: z.enum(["week", "month", "year"]).default("month"),
+  window: z.coerce.number().int().min(1).max(52).default(3),
+});
+
+export function insightsRouter(store: Store) {
+  const router = Router();
+
+  // Every insight honors the same query filters as GET /transactions. Transfers
+  // between the user's own accounts are neither income nor spending, so no
+  // insight sees them. Under a category filter, split transactions count only
+  // their parts in that category. The user's settings ride along in res.locals too.
+  router.use(async (req, res, next) => {
+    const filter = parseFilter(req.query);
+    if (!filter.success) {
+      return invalid(res, "Invalid filter", filter.error);
+    }
+
+    const userId = currentUserId(req);
+    const [transactions, [settings]] = await Promise.all([
+      store.transactions.find((t) => t.userId === userId && t.transferId === null && matchesFilter(t, filter.data)),
+      store.settings.find((s) => s.userId === userId),
+    ]);
+    res.locals.filter = filter.data;
+    res.locals.transactions =
+      filter.data.category === undefined ? transactions : allocate(transactions).filter((t) => matchesFilter(t, filter.data));
+    res.locals.settings = resolveSettings(settings);
+    next();
+  });
+
+  // Calendar months from `from` to `to` (YYYY-MM-DD, inclusive), counting a
+  // partial month as the share of its days in range.
+  function monthsCovered(from: string, to: string) {
+    let covered = 0;
+    for (let month = from.slice(0, 7); month <= to.slice(0, 7); month = shiftMonth(month, 1)) {
+      const days = daysInMonth(month);
+      const first = month === from.slice(0, 7) ? Number(from.slice(8, 10)) : 1;
+      const last = month === to.slice(0, 7) ? Number(to.slice(8, 10)) : days;
+      covered += (last - first + 1) / days;
+    }
+    return covered;
+  }
+
+  // Income and spending for the filtered period. An expected monthly income
+  // from the user's settings replaces the income actually recorded, scaled to
+  // the days the period covers (whole months where it has no from/to), except
+  // under an account, category or tag filter: the expected salary isn't that
+  // slice's income.
+  function cashFlow(res: Response) {
+    const filter: TransactionFilter = res.locals.filter;
+    const transactions: Transaction[] = res.locals.transactions;
+    let actualIncome = 0;
+    let expenses = 0;
+
+    for (const t of transactions) {
+      if (t.amount > 0) actualIncome += t.amount;
+      else expenses += Math.abs(t.amount);
+    }
+
+    const dates = transactions.map((t) => t.date).sort();
+    const firstMonth = (filter.from ?? dates[0] ?? currentMonth()).slice(0, 7);
+    const lastMonth = (filter.to ?? dates[dates.length - 1] ?? currentMonth()).slice(0, 7);
+    const months = Math.max(1, monthsBetween(firstMonth, lastMonth) + 1);
+
+    const unfiltered = filter.account === undefined && filter.category === undefined && filter.tag === undefined;
+    const covered = monthsCovered(filter.from ?? `${firstMonth}-01`, filter.to ?? `${lastMonth}-${daysInMonth(lastMonth)}`);
+    const expected = unfiltered ? expectedIncome(res.locals.settings, covered) : null;
+    const income = expected ?? actualIncome;
+    const net = income - expenses;
+
+    return {
+      income,
+      actualIncome,
+      incomeSource: expected === null ? ("actual" as const) : ("expected" as const),
+      expenses,
+      net,
+      savingsRate: income > 0 ? net / income : 0,
+      months,
+    };
+  }
+
+  // Budgets look at one month (`?month=`, default this month) but need the
+  // months before it for rollover, so they only apply the account filter.
+  async function budgetContext(req: Request, res: Response) {
+    const userId = currentUserId(req);
+    const filter: TransactionFilter = res.locals.filter;
+    const month = typeof req.query.month === "string" ? req.query.month : currentMonth();
+
+    const [budgets, transactions] = await Promise.all([
+      store.budgets.find((b) => b.userId === userId),
+      store.transactions.find(
+        (t) => t.userId === userId && t.transferId === null && (filter.account === undefined || t.account === filter.account)
+      ),
+    ]);
+    return budgetStatus(budgets, transactions, month);
+  }
+
+  // Forecasts start from the latest data (or `to`) and need the whole history
+  // before it, so like recurring detection they only apply `account` and `to`.
+  async function forecastContext(req: Request, res: Response, days: number) {
+    const userId = currentUserId(req);
+    const filter: TransactionFilter = res.locals.filter;
+    const [transactions, accounts] = await Promise.all([
+      store.transactions.find(
+        (t) =>
+          t.userId === userId &&
+          (filter.account === undefined || t.account === filter.account) &&
+          (filter.to === undefined || t.date <= filter.to)
+      ),
+      store.accounts.find((a) => a.userId === userId && (filter.account === undefined || a.name === filter.account)),
+    ]);
+
+    const latest = transactions.reduce((max, t) => (t.date > max ? t.date : max), "");
+    const asOf = filter.to ?? (latest || new Date().toISOString().slice(0, 10));
+    return forecast(transactions, accounts, asOf, days, res.locals.settings);
+  }
+
+  router.get("/totals", (_req, res) => {
+    const transactions: Transaction[] = res.locals.transactions;
+    const { income, actualIncome, incomeSource, expenses, net } = cashFlow(res);
+
+    const byCategory: Record<string, number> = {};
+
+    for (const t of allocate(transactions)) {
+      if (t.amount >= 0) continue;
+      const cat = t.category || "Uncategorized";
+      byCategory[cat] = (byCategory[cat] || 0) + Math.abs(t.amount);
+    }
+
+    res.json({ income, actualIncome, incomeSource, expenses, net, byCategory });
+  });
+
+  router.get("/summary", (_req, res) => {
+    const { months: _months, ...summary } = cashFlow(res);
+    res.json(summary);
+  });
+
+  // Where the money goes: `?sort=spend|visits` (default spend), top `limit` (default 10).
+  router.get("/merchants", (req, res) => {
+    const parsed = merchantsSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return invalid(res, "Invalid merchants query", parsed.error);
+    }
+
+    const transactions: Transaction[] = res.locals.transactions;
+    res.json(topMerchants(transactions, parsed.data.sort, parsed.data.limit));
+  });
+
+  // `?interval=week|month|year` (default month); `window` is how many buckets
+  // the rolling averages span (default 3).
+  router.get("/trends", (req, res) => {
+    const parsed = trendsSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return invalid(res, "Invalid trends query", parsed.error);
+    }
+
+    const transactions: Transaction[] = res.locals.transactions;
+    res.json(trends(transactions, parsed.data.interval, parsed.data.window));
+  });
+
+  // `?days=` (1–90, default 90). `floor` is the low-balance advice rule's
+  // threshold, so the chart and the warning agree.
+  router.get("/forecast", async (req, res) => {
+    const parsed = forecastSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return invalid(res, "Invalid forecast query", parsed.error);
+    }
+
+    const userId = currentUserId(req);
+    const rule = ADVICE_RULES.find((r) => r.id === "low-balance")!;
+    const [setting] = await store.adviceSettings.find((s) => s.userId === userId && s.ruleId === rule.id);
+    res.json({
+      ...(await forecastContext(req, res, parsed.data.days)),
+      floor: resolveThresholds(rule, setting).floor,
+    });
+  });
+
+  router.get("/budgets", async (req, res) => {
+    res.json(await budgetContext(req, res));
+  });
+
+  // Detection needs the whole history, so only `account` and `to` apply; `to`
+  // (default: the latest transaction) is the "as of" date for missed charges.
+  router.get("/recurring", async (req, res) => {
+    const userId = currentUserId(req);
+    const filter: TransactionFilter = res.locals.filter;
+    const transactions = await store.transactions.find(
+      (t) =>
+        t.userId === userId &&
+        t.transferId === null &&
+        (filter.account === undefined || t.account === filter.account) &&
+        (filter.to === undefined || t.date <= filter.to)
+    );
+
+    const asOf = filter.to ?? transactions.reduce((max, t) => (t.date > max ? t.date : max), "");
+    res.json(detectRecurring(transactions, asOf));
+  });
+
+  // Rules, thresholds and dismissals live in advice.ts and routes/advice.ts.
+  async function advise(req: Request, res: Response) {
+    const userId = currentUserId(req);
+    const filter: TransactionFilter = res.locals.filter;
+    const transactions: Transaction[] = res.locals.transactions;
+    const { income, incomeSource, expenses, net, savingsRate, months } = cashFlow(res);
+
+    // Anomalies are judged against the user's whole history, not just the period.
+    const [history, budgets, projection, settings, dismissals] = await Promise.all([
+      store.transactions.find(
+        (t) =>
+          t.userId === userId &&
+          t.transferId === null &&
+          (filter.account === undefined || t.account === filter.account)
+      ),
+      budgetContext(req, res),
+      forecastContext(req, res, FORECAST_MAX_DAYS),
+      store.adviceSettings.find((s) => s.userId === userId),
+      store.adviceDismissals.find((d) => d.userId === userId),
+    ]);
+
+    const context: AdviceContext = {
+      period: transactions,
+      history,
+      // The tag goes last and only when set, so dismissals made without one keep their ids.
+      periodKey: [
+        filter.from ?? "",
+        filter.to ?? "",
+        filter.account ?? "",
+        filter.category ?? "",
+        ...(filter.tag ? [filter.tag] : []),
+      ].join("|"),
+      income,
+      incomeSource,
+      expenses,
+      net,
+      savingsRate,
+      months,
+      budgets,
+      forecast: projection,
+      money: moneyFormatter(res.locals.settings),
+    };
+
+    return evaluateAdvice(context, settings, dismissals);
+  }
+
+  router.get("/advice", async (req, res) => {
+    res.json(await advise(req, res));
+  });
+
+  // Totals, spending by category and advice for the filtered period (use
+  // `?month=` for a monthly report). `?format=html` renders a printable page.
+  router.get("/report", async (req, res) => {
+    const format = req.query.format ?? "json";
+    if (format !== "json" && format !== "html") {
+      return invalidField(res, "Invalid report format", "format", "format must be json or html");
+    }
+
+    const filter: TransactionFilter = res.locals.filter;
+    const transactions: Transaction[] = res.locals.transactions;
+    const { months: _months, ...totals } = cashFlow(res);
+
+    const spent = new Map<string, number>();
+    for (const t of allocate(transactions)) {
+      if (t.amount >= 0) continue;
+      const cat = t.category || "Uncategorized";
+      spent.set(cat, (spent.get(cat) ?? 0) + Math.abs(t.amount));
+    }
+
+    const report: Report = {
+      from: filter.from ?? null,
+      to: filter.to ?? null,
+      account: filter.account ?? null,
+      generatedAt: new Date().toISOString(),
+      totals,
+      categories: [...spent]
+        .sort((a, b) => b[1] - a[1])
+        .map(([category, amount]) => ({
+          category,
+          spent: amount,
+          share: totals.expenses > 0 ? amount / totals.expenses : 0,
+        })),
+      advice: await advise(req, res),
+    };
+
+    if (format === "json") return res.json(report);
+    res.type("html").send(reportHtml(report, moneyFormatter(res.locals.settings)));
+  });
+
+  return router;
+}
@@ -0,0 +1,117 @@
+import { Router } from "express";
+import crypto from "node:crypto";
+import { z } from "zod";
+import { currentUserId } from "../auth";
+import { normalizeName } from "../imports";
+import { merchantDirectory, resolveMerchant } from "../merchants";
+import { categorize } from "../rules";
+import type { Store } from "../store";
+import type { Merchant, Transaction } from "../types";
+import { invalid } from "../validation";
+
+/* =========================
+   Validation
+========================= */
+
+// Aliases are stored normalized ("AMZN Mktp" → "amzn mktp"), as they're matched.
+const alias = z
+  .string()
+  .transform(normalizeName)
+  .pipe(z.string().min(1, "Aliases need at least one letter or digit"));
+
+const merchantSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  aliases: z.array(alias).transform((aliases) => Array.from(new Set(aliases))).default([]),
+  category: z.string().trim().min(1).nullable().default(null),
+});
+
+/* =========================
+   Merchant Directory
+========================= */
+
+export function merchantsRouter(store: Store) {
+  const router = Router();
+
+  // The user's entries first, then the built-in ones (`userId: null`), which can't be edited.
+  router.get("/", async (req, res) => {
+    res.json(await merchantDirectory(store, currentUserId(req)));
+  });
+
+  router.post("/", async (req, res) => {
+    const parsed = merchantSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalid(res, "Invalid merchant", parsed.error);
+    }
+
+    const merchant: Merchant = { id: crypto.randomUUID(), userId: currentUserId(req), ...parsed.data };
+    await store.merchants.insert([merchant]);
+    res.status(201).json(merchant);
+  });
+
+  // Partial update; the merged entry is validated as a whole.
+  router.patch("/:id", async (req, res) => {
+    const userId = currentUserId(req);
+    const merchant = await store.merchants.get(req.params.id);
+    if (!merchant || merchant.userId !== userId) {
+      return res.status(404).json({ error: "Merchant not found" });
+    }
+
+    const { id: _id, userId: _userId, ...current } = merchant;
+    const parsed = merchantSchema.safeParse({ ...current, ...req.body });
+    if (!parsed.success) {
+      return invalid(res, "Invalid merchant", parsed.error);
+    }
+
+    res.json(await store.merchants.update(merchant.id, parsed.data));
+  });
+
+  router.delete("/:id", async (req, res) => {
+    const userId = currentUserId(req);
+    const removed = await store.merchants.remove((m) => m.id === req.params.id && m.userId === userId);
+    if (!removed) {
+      return res.status(404).json({ error: "Merchant not found" });
+    }
+    res.json({ ok: true });
+  });
+
+  /* =========================
+     Re-apply
+  ========================= */
+
+  // Re-resolves every stored transaction's merchant against the directory.
+  // Categories follow only where the directory or the rules chose them, so
+  // manual, learned and bank categories and transfers keep theirs; a
+  // transaction whose entry lost its category goes back to the rules.
+  router.post("/apply", async (req, res) => {
+    const userId = currentUserId(req);
+    const [directory, rules, transactions] = await Promise.all([
+      merchantDirectory(store, userId),
+      store.categoryRules.find((r) => r.userId === userId),
+      store.transactions.find((t) => t.userId === userId),
+    ]);
+
+    const patches: Array<Partial<Transaction> & { id: string }> = [];
+    for (const t of transactions) {
+      const { name, entry } = resolveMerchant(t.name, directory);
+      const patch: Partial<Transaction> & { id: string } = { id: t.id };
+      if (name !== t.merchant) patch.merchant = name;
+
+      if (!t.transferId && (t.categorySource === "rule" || t.categorySource === "merchant")) {
+        const category = entry?.category ?? null;
+        if (category && (category !== t.category || t.categorySource !== "merchant")) {
+          Object.assign(patch, { category, categorySource: "merchant", categoryConfidence: null });
+        } else if (!category && t.categorySource === "merchant") {
+          const fallback = categorize(rules, t.name, t.amount);
+          Object.assign(patch, { category: fallback, categorySource: "rule", categoryConfidence: null });
+        }
+      }
+
+      if (Object.keys(patch).length > 1) patches.push(patch);
+    }
+
+    const updated = await store.transactions.updateMany(patches);
+    res.json({ ok: true, updated, total: transactions.length });
+  });
+
+  return router;
+}
@@ -0,0 +1,75 @@
+import { Router } from "express";
+import crypto from "node:crypto";
+import { z } from "zod";
+import { currentUserId } from "../auth";
+import { BUILTIN_PROFILES, DELIMITERS } from "../profiles";
+import type { Store } from "../store";
+import type { ImportProfile } from "../types";
+import { invalid } from "../validation";
+
+/* =========================
+   Validation
+========================= */
+
+const header = z.string().trim().min(1);
+
+const profileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  delimiter: z.string().refine((d) => DELIMITERS.includes(d), "Unsupported delimiter").default(","),
+  dateFormat: z.enum(["YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY", "MM/DD/YY"]),
+  sign: z.enum(["signed", "inverted", "auto"]),
+  columns: z
+    .object({
+      date: header,
+      name: header,
+      amount: header.exactOptional(),
+      debit: header.exactOptional(),
+      credit: header.exactOptional(),
+      category: header.exactOptional(),
+    })
+    .refine((c) => c.amount || c.debit || c.credit, "Map either an amount column or debit/credit columns"),
+  signature: z.array(header).default([]),
+});
+
+/* =========================
+   Import Profiles
+========================= */
+
+export function profilesRouter(store: Store) {
+  const router = Router();
+
+  router.get("/", async (req, res) => {
+    const userId = currentUserId(req);
+    const own = await store.importProfiles.find((p) => p.userId === userId);
+    res.json([...own, ...BUILTIN_PROFILES]);
+  });
+
+  // The mapping wizard sends the file's headers as `signature` so the same
+  // export is auto-detected next time.
+  router.post("/", async (req, res) => {
+    const parsed = profileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalid(res, "Invalid import profile", parsed.error);
+    }
+
+    const profile: ImportProfile = {
+      id: crypto.randomUUID(),
+      userId: currentUserId(req),
+      ...parsed.data,
+    };
+
+    await store.importProfiles.insert([profile]);
+    res.status(201).json(profile);
+  });
+
+  router.delete("/:id", async (req, res) => {
+    const userId = currentUserId(req);
+    const removed = await store.importProfiles.remove((p) => p.id === req.params.id && p.userId === userId);
+    if (!removed) {
+      return res.status(404).json({ error: "Import profile not found" });
+    }
+    res.json({ ok: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,126 @@
+import { Router } from "express";
+import crypto from "node:crypto";
+import { z } from "zod";
+import { currentUserId } from "../auth";
+import { findRule, sortRules } from "../rules";
+import type { Store } from "../store";
+import type { CategoryRule, Transaction } from "../types";
+import { invalid } from "../validation";
+
+/* =========================
+   Validation
+========================= */
+
+const ruleFields = z.object({
+  matchType: z.enum(["contains", "regex", "merchant", "amount-range"]),
+  pattern: z.string().trim().default(""),
+  minAmount: z.number().nullable().default(null),
+  maxAmount: z.number().nullable().default(null),
+  priority: z.number().int().default(0),
+  category: z.string().trim().min(1, "Category is required"),
+  enabled: z.boolean().default(true),
+});
+
+function checkRule(rule: z.infer<typeof ruleFields>, ctx: z.RefinementCtx) {
+  if (rule.matchType === "amount-range") {
+    if (rule.minAmount === null && rule.maxAmount === null) {
+      ctx.addIssue({ code: "custom", message: "Set a minimum and/or maximum amount", path: ["minAmount"] });
+    }
+    return;
+  }
+
+  if (!rule.pattern) {
+    ctx.addIssue({ code: "custom", message: "Pattern is required", path: ["pattern"] });
+  } else if (rule.matchType === "regex") {
+    try {
+      new RegExp(rule.pattern);
+    } catch (err) {
+      ctx.addIssue({ code: "custom", message: `Invalid regex: ${(err as Error).message}`, path: ["pattern"] });
+    }
+  }
+}
+
+const createSchema = ruleFields.superRefine(checkRule);
+
+/* =========================
+   Categorization Rules
+========================= */
+
+export function rulesRouter(store: Store) {
+  const router = Router();
+
+  router.get("/", async (req, res) => {
+    const userId = currentUserId(req);
+    res.json(sortRules(await store.categoryRules.find((r) => r.userId === userId)));
+  });
+
+  router.post("/", async (req, res) => {
+    const parsed = createSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalid(res, "Invalid rule", parsed.error);
+    }
+
+    const rule: CategoryRule = {
+      id: crypto.randomUUID(),
+      userId: currentUserId(req),
+      ...parsed.data,
+      createdAt: new Date().toISOString(),
+    };
+
+    await store.categoryRules.insert([rule]);
+    res.status(201).json(rule);
+  });
+
+  // Partial update; the merged rule is validated as a whole.
+  router.patch("/:id", async (req, res) => {
+    const userId = currentUserId(req);
+    const rule = await store.categoryRules.get(req.params.id);
+    if (!rule || rule.userId !== userId) {
+      return res.status(404).json({ error: "Rule not found" });
+    }
+
+    const { id: _id, userId: _userId, createdAt: _createdAt, ...current } = rule;
+    const parsed = createSchema.safeParse({ ...current, ...req.body });
+    if (!parsed.success) {
+      return invalid(res, "Invalid rule", parsed.error);
+    }
+
+    res.json(await store.categoryRules.update(rule.id, parsed.data));
+  });
+
+  router.delete("/:id", async (req, res) => {
+    const userId = currentUserId(req);
+    const removed = await store.categoryRules.remove((r) => r.id === req.params.id && r.userId === userId);
+    if (!removed) {
+      return res.status(404).json({ error: "Rule not found" });
+    }
+    res.json({ ok: true });
+  });
+
+  /* =========================
+     Re-apply
+  ========================= */
+
+  // Re-runs the rules over stored transactions. Rules come last in
+  // chooseCategory()'s order, so only categories the rules chose are redone:
+  // manual, learned, merchant-directory and bank categories, transfers and
+  // transactions no rule matches keep whatever category they have.
+  router.post("/apply", async (req, res) => {
+    const userId = currentUserId(req);
+    const rules = await store.categoryRules.find((r) => r.userId === userId);
+    const transactions = await store.transactions.find((t) => t.userId === userId);
+
+    const patches: Array<Partial<Transaction> & { id: string }> = [];
+    for (const t of transactions) {
+      if (t.categorySource !== "rule" || t.transferId) continue;
+      const rule = findRule(rules, t.name, t.amount);
+      if (!rule || (rule.category === t.category && t.categorySource === "rule")) continue;
+      patches.push({ id: t.id, category: rule.category, categorySource: "rule", categoryConfidence: null });
+    }
+
+    const updated = await store.transactions.updateMany(patches);
+    res.json({ ok: true, updated, total: transactions.length });
+  });
+
+  return router;
+}
@@ -0,0 +1,80 @@
+import { Router } from "express";
+import crypto from "node:crypto";
+import { z } from "zod";
+import { currentUserId } from "../auth";
+import { resolveSettings } from "../settings";
+import type { Store } from "../store";
+import { invalid } from "../validation";
+
+/* =========================
+   Validation
+========================= */
+
+function isCurrency(code: string) {
+  return Intl.supportedValuesOf("currency").includes(code);
+}
+
+function isLocale(tag: string) {
+  try {
+    return Intl.getCanonicalLocales(tag).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+const settingsSchema = z.object({
+  expectedMonthlyIncome: z.number().positive("Expected income must be positive").nullable(),
+  paySchedule: z.enum(["weekly", "biweekly", "semimonthly", "monthly"]).nullable(),
+  nextPayday: z.iso.date().nullable(),
+  currency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine(isCurrency, "Unknown currency code"),
+  locale: z.string().trim().refine(isLocale, "Invalid locale"),
+});
+
+/* =========================
+   User Settings
+========================= */
+
+export function settingsRouter(store: Store) {
+  const router = Router();
+
+  router.get("/", async (req, res) => {
+    const userId = currentUserId(req);
+    const [settings] = await store.settings.find((s) => s.userId === userId);
+    res.json(resolveSettings(settings));
+  });
+
+  // Fields left out keep their current value; null clears the optional ones.
+  router.patch("/", async (req, res) => {
+    const userId = currentUserId(req);
+    const [existing] = await store.settings.find((s) => s.userId === userId);
+
+    const parsed = settingsSchema.safeParse({ ...resolveSettings(existing), ...req.body });
+    if (!parsed.success) {
+      return invalid(res, "Invalid settings", parsed.error);
+    }
+
+    const settings = {
+      id: existing?.id ?? crypto.randomUUID(),
+      userId,
+      ...parsed.data,
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (existing) await store.settings.update(existing.id, settings);
+    else await store.settings.insert([settings]);
+    res.json(resolveSettings(settings));
+  });
+
+  // Back to the defaults.
+  router.delete("/", async (req, res) => {
+    const userId = currentUserId(req);
+    await store.settings.remove((s) => s.userId === userId);
+    res.json(resolveSettings(undefined));
+  });
+
+  return router;
+}
@@ -0,0 +1,786 @@
+import { Router } from "express";
+import multer from "multer";
+import { parse } from "csv-parse/sync";
+import crypto from "node:crypto";
+import { removeAttachments } from "../attachments";
+import { currentUserId } from "../auth";
+import { dateProblem, localeOrder, parseDate, resolveDateOrder, type DateOrder } from "../dates";
+import { toCsv, toOfx } from "../exports";
+import { listTransactions, matchesFilter, matchesSearch, parseFilter, parseListQuery } from "../filters";
+import { classifyImport, fingerprint, type RejectedRow } from "../imports";
+import { chooseCategory, trainModel } from "../learner";
+import { merchantDirectory, resolveMerchant } from "../merchants";
+import {
+  applySignRule,
+  BUILTIN_PROFILES,
+  chooseSignRule,
+  detectProfile,
+  readHeaders,
+  readRow,
+  resolveColumns,
+  sniffDelimiter,
+} from "../profiles";
+import { resolveSettings } from "../settings";
+import { detectStatementFormat, parseOfx, parseQif } from "../statements";
+import { categoriesOf, splitError } from "../splits";
+import type { Store } from "../store";
+import { tagsSchema } from "../tags";
+import { matchTransfers } from "../transfers";
+import { z } from "zod";
+import type { Account, AccountKind, AccountType, ImportBatch, Transaction } from "../types";
+import { invalid, invalidField } from "../validation";
+
+const EXPORT_FORMATS = ["csv", "json", "ofx"] as const;
+
+const KIND_LABELS: Record<AccountKind, string> = {
+  checking: "Checking",
+  savings: "Savings",
+  "credit-card": "Credit card",
+  cash: "Cash",
+};
+
+const upload = multer({ storage: multer.memoryStorage() });
+
+// Amounts may arrive as numbers or as text typed into a form ("-12.50").
+const amountField = z.union([z.number(), z.string().trim().min(1).pipe(z.coerce.number())], {
+  error: "Amount must be a number",
+});
+
+const noteField = z.string().trim().max(2000, "Notes are at most 2000 characters");
+
+// Numeric dates are read in `order` (the user's locale's), see dates.ts.
+function dateField(order: DateOrder) {
+  return z.string().transform((raw, ctx) => {
+    const date = parseDate(raw, order);
+    if (date) return date;
+    ctx.addIssue({ code: "custom", message: dateProblem(raw, order) });
+    return z.NEVER;
+  });
+}
+
+function newTransactionSchema(order: DateOrder) {
+  return z.object({
+    date: dateField(order),
+    name: z.string().trim().default(""),
+    amount: amountField,
+    accountId: z.string().trim().default(""),
+    tags: tagsSchema.default([]),
+    note: noteField.default(""),
+  });
+}
+
+function patchSchema(order: DateOrder) {
+  return z.object({
+    date: dateField(order).exactOptional(),
+    name: z.string().trim().min(1).exactOptional(),
+    amount: z.number().exactOptional(),
+    category: z.string().trim().min(1).exactOptional(),
+    tags: tagsSchema.exactOptional(), // replaces the transaction's tags
+    note: noteField.exactOptional(),
+  });
+}
+
+// Multipart form fields for the CSV import; all arrive as strings.
+const csvImportSchema = z.object({
+  accountId: z.string().trim().default(""),
+  account: z.string().trim().default(""),
+  profileId: z.string().trim().default(""),
+  accountType: z.enum(["credit-card", "deposit"]).exactOptional(),
+  sign: z.enum(["signed", "inverted"]).exactOptional(),
+  dateOrder: z.enum(["MDY", "DMY"]).exactOptional(),
+});
+
+const statementImportSchema = csvImportSchema.pick({ accountId: true, account: true, dateOrder: true });
+
+const transferSchema = z.object({
+  counterpartId: z.string().min(1, "Pick the other side of the transfer"),
+});
+
+const splitsSchema = z.object({
+  splits: z.array(
+    z.object({
+      amount: z.number(),
+      category: z.string().trim().min(1),
+      note: z.string().trim().default(""),
+    })
+  ),
+});
+
+export function transactionsRouter(store: Store) {
+  const router = Router();
+
+  // Gives new transactions their merchant and category. The learner is
+  // retrained per request; it only reads manual corrections, which are few.
+  async function categorizer(userId: string) {
+    const [history, rules, directory] = await Promise.all([
+      store.transactions.find((t) => t.userId === userId && t.categorySource === "manual"),
+      store.categoryRules.find((r) => r.userId === userId),
+      merchantDirectory(store, userId),
+    ]);
+    const model = trainModel(history);
+    return (name: string, amount: number, bankCategory = "") => {
+      const merchant = resolveMerchant(name, directory);
+      return { merchant: merchant.name, ...chooseCategory(model, rules, name, amount, bankCategory, merchant.entry?.category) };
+    };
+  }
+
+  // Links transfer pairs involving `candidates` and moves both legs to the
+  // "Transfer" category (manual categories are kept). Returns the pair count.
+  async function linkTransfers(userId: string, candidates: Transaction[]) {
+    const [pool, accounts] = await Promise.all([
+      store.transactions.find((t) => t.userId === userId),
+      store.accounts.find((a) => a.userId === userId),
+    ]);
+
+    const pairs = matchTransfers(candidates, pool, accounts);
+    await link(pairs);
+    return pairs.length;
+  }
+
+  // Gives each pair its own transferId, in one write.
+  async function link(pairs: Transaction[][]) {
+    const patches = pairs.flatMap((pair) => {
+      const transferId = crypto.randomUUID();
+      return pair.map((t): Partial<Transaction> & { id: string } =>
+        t.categorySource !== "manual"
+          ? { id: t.id, transferId, category: "Transfer", categorySource: "rule", categoryConfidence: null }
+          : { id: t.id, transferId }
+      );
+    });
+    await store.transactions.updateMany(patches);
+  }
+
+  // Unlinked legs go back through the categorizer unless set by hand.
+  async function unlink(userId: string, transferId: string) {
+    const legs = await store.transactions.find((t) => t.userId === userId && t.transferId === transferId);
+    const classify = await categorizer(userId);
+    await store.transactions.updateMany(
+      legs.map((t) =>
+        t.categorySource !== "manual"
+          ? { id: t.id, transferId: null, ...classify(t.name, t.amount) }
+          : { id: t.id, transferId: null }
+      )
+    );
+    return legs.length;
+  }
+
+  // Finds the user's account by id, or by name for clients that only send a
+  // label, creating it (as `kind`) if `create` is set. Resolves to null when
+  // there's no account to use and to undefined when `accountId` doesn't exist.
+  async function resolveAccount(
+    userId: string,
+    accountId: string,
+    label: string,
+    kind: AccountKind,
+    create: boolean
+  ): Promise<Account | null | undefined> {
+    if (accountId) {
+      const account = await store.accounts.get(accountId);
+      return account?.userId === userId ? account : undefined;
+    }
+    if (!label) return null;
+
+    const [existing] = await store.accounts.find((a) => a.userId === userId && a.name.toLowerCase() === label.toLowerCase());
+    if (existing || !create) return existing ?? null;
+
+    const account: Account = {
+      id: crypto.randomUUID(),
+      userId,
+      name: label,
+      kind,
+      number: null,
+      openingBalance: 0,
+      createdAt: new Date().toISOString(),
+    };
+    await store.accounts.insert([account]);
+    return account;
+  }
+
+  // Shared by the CSV and statement imports: classifies `candidates` against
+  // the user's transactions and, unless it's a dry run, saves the new ones as
+  // one batch and links transfers. `summary` describes how the file was read.
+  // Resolves to the response body and the saved transactions (null for a dry run).
+  async function saveImport(
+    dryRun: boolean,
+    candidates: Array<{ row: number; transaction: Transaction }>,
+    batch: Omit<ImportBatch, "added" | "duplicates">,
+    summary: Record<string, unknown>
+  ) {
+    const existing = await store.transactions.find((t) => t.userId === batch.userId);
+    const classified = classifyImport(candidates, existing);
+    const imported = classified.filter((r) => r.status === "new").map((r) => r.transaction);
+    const duplicates = classified.length - imported.length;
+
+    if (dryRun) {
+      return { body: { dryRun: true, ...summary, new: imported.length, duplicates, rows: classified }, imported: null };
+    }
+
+    await store.transactions.insert(imported);
+    await store.importBatches.insert([{ ...batch, added: imported.length, duplicates }]);
+    const transfers = await linkTransfers(batch.userId, imported);
+
+    return {
+      body: {
+        batchId: batch.id,
+        ...summary,
+        imported: imported.length,
+        duplicates,
+        transfers,
+        sample: imported.slice(0, 5),
+      },
+      imported,
+    };
+  }
+
+  // The usual filters plus `q`, `type`, `minAmount`/`maxAmount`, `sort`/`order`
+  // and `offset`/`limit`; see listTransactions(). Responds with one page and the total.
+  router.get("/transactions", async (req, res) => {
+    const filter = parseFilter(req.query);
+    if (!filter.success) {
+      return invalid(res, "Invalid filter", filter.error);
+    }
+    const list = parseListQuery(req.query);
+    if (!list.success) {
+      return invalid(res, "Invalid list query", list.error);
+    }
+
+    const userId = currentUserId(req);
+    const transactions = await store.transactions.find((t) => t.userId === userId && matchesFilter(t, filter.data));
+    res.json(listTransactions(transactions, list.data));
+  });
+
+  // Distinct values for building filter pickers, always over all of the user's data.
+  router.get("/transactions/facets", async (req, res) => {
+    const userId = currentUserId(req);
+    const transactions = await store.transactions.find((t) => t.userId === userId);
+    const distinct = (values: string[]) => Array.from(new Set(values)).sort();
+
+    res.json({
+      months: distinct(transactions.map((t) => t.date.slice(0, 7))).reverse(),
+      accounts: distinct(transactions.map((t) => t.account).filter(Boolean)),
+      categories: distinct(transactions.flatMap(categoriesOf)),
+      tags: distinct(transactions.flatMap((t) => t.tags)),
+    });
+  });
+
+  /* =========================
+     Export
+  ========================= */
+
+  // `?format=csv|json|ofx` (default csv) downloads the transactions matching
+  // the usual filters and GET /transactions' search filters, unpaged. CSV and
+  // JSON rows match GET /transactions.
+  router.get("/transactions/export", async (req, res) => {
+    const filter = parseFilter(req.query);
+    if (!filter.success) {
+      return invalid(res, "Invalid filter", filter.error);
+    }
+    const list = parseListQuery(req.query);
+    if (!list.success) {
+      return invalid(res, "Invalid list query", list.error);
+    }
+    const format = req.query.format ?? "csv";
+    if (!EXPORT_FORMATS.includes(format as (typeof EXPORT_FORMATS)[number])) {
+      return invalidField(res, "Invalid export format", "format", `format must be one of: ${EXPORT_FORMATS.join(", ")}`);
+    }
+
+    const userId = currentUserId(req);
+    const transactions = (
+      await store.transactions.find(
+        (t) => t.userId === userId && matchesFilter(t, filter.data) && matchesSearch(t, list.data)
+      )
+    ).sort((a, b) => a.date.localeCompare(b.date) || a.name.localeCompare(b.name));
+    const fileName = `transactions-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.attachment(fileName);
+
+    if (format === "json") return res.json(transactions);
+    if (format === "csv") return res.type("csv").send(toCsv(transactions));
+
+    // OFX statements carry each account's current balance.
+    const [accounts, all, [settings]] = await Promise.all([
+      store.accounts.find((a) => a.userId === userId),
+      store.transactions.find((t) => t.userId === userId && t.accountId !== null),
+      store.settings.find((s) => s.userId === userId),
+    ]);
+    const balances = accounts.map((a) => ({
+      ...a,
+      balance: all.filter((t) => t.accountId === a.id).reduce((s, t) => s + t.amount, a.openingBalance),
+    }));
+    res.type("application/x-ofx").send(toOfx(transactions, balances, resolveSettings(settings).currency));
+  });
+
+  /* =========================
+     Manual Add Transaction
+  ========================= */
+
+  router.post("/transactions", async (req, res) => {
+    const userId = currentUserId(req);
+    const [settings] = await store.settings.find((s) => s.userId === userId);
+    const parsed = newTransactionSchema(localeOrder(resolveSettings(settings).locale)).safeParse(req.body);
+    if (!parsed.success) {
+      return invalid(res, "Invalid transaction", parsed.error);
+    }
+    const { date, name, amount, accountId, tags, note } = parsed.data;
+
+    const account = await resolveAccount(userId, accountId, "", "checking", false);
+    if (account === undefined) {
+      return res.status(404).json({ error: "Account not found" });
+    }
+
+    const classify = await categorizer(userId);
+    const base = {
+      date,
+      name: name || "(No description)",
+      amount,
+      account: account?.name ?? "",
+    };
+
+    const tx: Transaction = {
+      id: crypto.randomUUID(),
+      userId,
+      ...base,
+      ...classify(name, amount),
+      accountId: account?.id ?? null,
+      transferId: null,
+      signRule: "manual",
+      fingerprint: fingerprint(base),
+      externalId: null,
+      importBatchId: null,
+      splits: null,
+      tags,
+      note,
+    };
+
+    await store.transactions.insert([tx]);
+    await linkTransfers(userId, [tx]);
+    res.json(await store.transactions.get(tx.id));
+  });
+
+  /* =========================
+     Edit Transaction
+  ========================= */
+
+  // A category set here counts as a manual correction and trains the learner.
+  router.patch("/transactions/:id", async (req, res) => {
+    const userId = currentUserId(req);
+    const tx = await store.transactions.get(req.params.id);
+    if (!tx || tx.userId !== userId) {
+      return res.status(404).json({ error: "Transaction not found" });
+    }
+
+    const [settings] = await store.settings.find((s) => s.userId === userId);
+    const parsed = patchSchema(localeOrder(resolveSettings(settings).locale)).safeParse(req.body);
+    if (!parsed.success) {
+      return invalid(res, "Invalid transaction", parsed.error);
+    }
+
+    if (tx.splits !== null && parsed.data.amount !== undefined && parsed.data.amount !== tx.amount) {
+      return res.status(409).json({ error: "Transaction is split", detail: "Remove or update its splits to change the amount" });
+    }
+
+    const patch: Partial<Transaction> = { ...parsed.data };
+    if (parsed.data.category !== undefined) {
+      patch.categorySource = "manual";
+      patch.categoryConfidence = null;
+    }
+    if (parsed.data.name !== undefined) {
+      patch.merchant = resolveMerchant(parsed.data.name, await merchantDirectory(store, userId)).name;
+    }
+    patch.fingerprint = fingerprint({ ...tx, ...parsed.data });
+
+    res.json(await store.transactions.update(tx.id, patch));
+  });
+
+  /* =========================
+     Split Transactions
+  ========================= */
+
+  // Replaces the transaction's splits; the parts must add up to its amount.
+  // Category insights then use the parts instead of the transaction's category.
+  router.put("/transactions/:id/splits", async (req, res) => {
+    const userId = currentUserId(req);
+    const tx = await store.transactions.get(req.params.id);
+    if (!tx || tx.userId !== userId) {
+      return res.status(404).json({ error: "Transaction not found" });
+    }
+    if (tx.transferId) {
+      return res.status(409).json({ error: "Transfers can't be split" });
+    }
+
+    const parsed = splitsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalid(res, "Invalid splits", parsed.error);
+    }
+    const problem = splitError(tx.amount, parsed.data.splits);
+    if (problem) {
+      return invalidField(res, "Invalid splits", "splits", problem);
+    }
+
+    res.json(await store.transactions.update(tx.id, { splits: parsed.data.splits }));
+  });
+
+  router.delete("/transactions/:id/splits", async (req, res) => {
+    const userId = currentUserId(req);
+    const tx = await store.transactions.get(req.params.id);
+    if (!tx || tx.userId !== userId) {
+      return res.status(404).json({ error: "Transaction not found" });
+    }
+    res.json(await store.transactions.update(tx.id, { splits: null }));
+  });
+
+  /* =========================
+     Reset | Start Fresh
+  ========================= */
+
+  // Only wipes the signed-in user's data, never the whole household's.
+  router.post("/reset", async (req, res) => {
+    const userId = currentUserId(req);
+    await store.transactions.remove((t) => t.userId === userId);
+    await store.importBatches.remove((b) => b.userId === userId);
+    await removeAttachments(store, (a) => a.userId === userId);
+    res.json({ ok: true });
+  });
+
+  /* =========================
+     CSV Import
+  ========================= */
+
+  // `?dryRun=true` classifies every row as new or duplicate without saving anything.
+  // Form fields: `accountId` targets one of the user's accounts (or `account`
+  // names one, created on first use; its kind implies `accountType`); `profileId`
+  // forces an import profile instead of detecting one from the headers;
+  // `accountType` ("credit-card" | "deposit") and `sign` ("signed" | "inverted")
+  // control how amount signs are read, see chooseSignRule(); `dateOrder`
+  // ("MDY" | "DMY") forces how dates like 03/04/2025 are read, see resolveDateOrder().
+  router.post("/transactions/import/csv", upload.single("file"), async (req, res) => {
+    if (!req.file) {
+      return invalidField(res, "Invalid import", "file", "Missing file field 'file'");
+    }
+    const form = csvImportSchema.safeParse(req.body ?? {});
+    if (!form.success) {
+      return invalid(res, "Invalid import", form.error);
+    }
+
+    const userId = currentUserId(req);
+    const dryRun = req.query.dryRun === "true";
+    const { accountId, account: accountLabel, profileId } = form.data;
+    const requestedType = form.data.accountType ?? null;
+    const signOverride = form.data.sign ?? null;
+    const requestedOrder = form.data.dateOrder ?? null;
+    const csvText = req.file.buffer.toString("utf8");
+
+    const profiles = [...(await store.importProfiles.find((p) => p.userId === userId)), ...BUILTIN_PROFILES];
+    const profile = profileId ? profiles.find((p) => p.id === profileId) : detectProfile(csvText, profiles);
+
+    if (!profile) {
+      if (profileId) return res.status(404).json({ error: "Import profile not found" });
+
+      // The client uses `headers` and `delimiter` to offer a column-mapping step.
+      const delimiter = sniffDelimiter(csvText);
+      let headers: string[] = [];
+      try {
+        headers = readHeaders(csvText, delimiter);
+      } catch {}
+      return res.status(422).json({ error: "Unrecognized CSV format", headers, delimiter });
+    }
+
+    let rows: Record<string, string>[];
+    let headers: string[];
+    try {
+      headers = readHeaders(csvText, profile.delimiter);
+      rows = parse(csvText, { columns: true, skip_empty_lines: true, trim: true, bom: true, delimiter: profile.delimiter });
+    } catch (err) {
+      return res.status(400).json({ error: "CSV parse error", detail: String(err) });
+    }
+
+    const kind = requestedType === "credit-card" ? "credit-card" : "checking";
+    const target = await resolveAccount(userId, accountId, accountLabel, kind, !dryRun);
+    if (target === undefined) {
+      return res.status(404).json({ error: "Account not found" });
+    }
+    const account = target?.name ?? accountLabel;
+    const accountType = requestedType ?? (target ? (target.kind === "credit-card" ? "credit-card" : "deposit") : null);
+
+    const cols = resolveColumns(profile.columns, headers);
+    const batchId = crypto.randomUUID();
+    const candidates: Array<{ row: number; transaction: Transaction }> = [];
+
+    // Unreadable rows are reported back with their line number and reason.
+    const rejected: RejectedRow[] = [];
+    const readable = rows.flatMap((r, i) => {
+      const row = i + 2; // +1 for the header line, +1 because lines count from 1
+      const parsed = readRow(cols, r);
+      if ("reason" in parsed) {
+        rejected.push({ row, ...parsed });
+        return [];
+      }
+      return [{ row, parsed }];
+    });
+
+    // One day/month order for the whole file; rows whose date doesn't fit it are rejected.
+    const dates = resolveDateOrder(readable.map((r) => r.parsed.date), profile.dateFormat, requestedOrder);
+    const parsedRows = readable.flatMap(({ row, parsed }) => {
+      const date = parseDate(parsed.date, dates.order);
+      if (date) return [{ row, parsed: { ...parsed, date } }];
+      rejected.push({ row, field: "date", value: parsed.date, reason: dateProblem(parsed.date, dates.order) });
+      return [];
+    });
+    const signRule = chooseSignRule(
+      profile,
+      cols,
+      parsedRows.map((r) => r.parsed),
+      { accountType, override: signOverride }
+    );
+
+    const classify = await categorizer(userId);
+
+    for (const { row, parsed } of parsedRows) {
+      const amount = applySignRule(signRule, parsed.amount);
+
+      const base = {
+        date: parsed.date,
+        name: parsed.name || "(No description)",
+        amount,
+        account,
+      };
+
+      candidates.push({
+        row,
+        transaction: {
+          id: crypto.randomUUID(),
+          userId,
+          ...base,
+          ...classify(parsed.name, amount, parsed.bankCategory),
+          accountId: target?.id ?? null,
+          transferId: null,
+          signRule,
+          fingerprint: fingerprint(base),
+          externalId: null,
+          importBatchId: batchId,
+          splits: null,
+          tags: [],
+          note: "",
+        },
+      });
+    }
+
+    const batch = {
+      id: batchId,
+      userId,
+      createdAt: new Date().toISOString(),
+      fileName: req.file.originalname,
+      account,
+      accountId: target?.id ?? null,
+      accountType,
+      format: "csv" as const,
+      profileId: profile.id,
+      signRule,
+      statementBalance: null,
+    };
+    const { body } = await saveImport(dryRun, candidates, batch, {
+      profile: { id: profile.id, name: profile.name },
+      signRule,
+      dates,
+      rejected: rejected.sort((a, b) => a.row - b.row),
+    });
+    res.json(body);
+  });
+
+  /* =========================
+     OFX / QFX / QIF Import
+  ========================= */
+
+  // Same form fields and `?dryRun=true` as the CSV import, minus the ones about
+  // signs and profiles: statements carry signed amounts. `dateOrder` only
+  // matters for QIF, whose dates may be written either way. Without `accountId` or `account`,
+  // the statement's account number picks the account (matching an account's
+  // number, or its name as in our own OFX exports), or names a new one.
+  router.post("/transactions/import/statement", upload.single("file"), async (req, res) => {
+    if (!req.file) {
+      return invalidField(res, "Invalid import", "file", "Missing file field 'file'");
+    }
+    const form = statementImportSchema.safeParse(req.body ?? {});
+    if (!form.success) {
+      return invalid(res, "Invalid import", form.error);
+    }
+
+    const text = req.file.buffer.toString("utf8");
+    const format = detectStatementFormat(text);
+    if (!format) {
+      return res.status(422).json({ error: "Unrecognized statement format", detail: "Expected an OFX, QFX or QIF file" });
+    }
+
+    const statements = format === "ofx" ? parseOfx(text) : parseQif(text, form.data.dateOrder ?? null);
+    if (statements.length !== 1) {
+      return res.status(422).json({
+        error: statements.length === 0 ? "No statement found in file" : "File contains several accounts",
+        detail: statements.length === 0 ? undefined : `Found ${statements.length} account statements; download one account at a time`,
+      });
+    }
+    const statement = statements[0]!;
+
+    const userId = currentUserId(req);
+    const dryRun = req.query.dryRun === "true";
+    const { accountId, account: accountLabel } = form.data;
+    const kind = statement.accountKind;
+
+    let target: Account | null | undefined;
+    if (!accountId && !accountLabel && statement.accountNumber) {
+      const accounts = await store.accounts.find((a) => a.userId === userId);
+      target =
+        accounts.find((a) => a.number === statement.accountNumber) ??
+        accounts.find((a) => a.number === null && a.name === statement.accountNumber);
+    }
+    if (!target) {
+      const label =
+        accountLabel ||
+        statement.accountName ||
+        (statement.accountNumber ? `${KIND_LABELS[kind ?? "checking"]} ••${statement.accountNumber.slice(-4)}` : "");
+      target = await resolveAccount(userId, accountId, label, kind ?? "checking", !dryRun);
+    }
+    if (target === undefined) {
+      return res.status(404).json({ error: "Account not found" });
+    }
+    if (target && !dryRun && target.number === null && statement.accountNumber) {
+      await store.accounts.update(target.id, { number: statement.accountNumber });
+    }
+
+    const account = target?.name ?? accountLabel;
+    const accountKind = target?.kind ?? kind;
+    const accountType: AccountType | null = accountKind === null ? null : accountKind === "credit-card" ? "credit-card" : "deposit";
+    const [earlier] = target ? await store.transactions.find((t) => t.accountId === target.id) : [];
+
+    const batchId = crypto.randomUUID();
+    const classify = await categorizer(userId);
+    const candidates = statement.transactions.map((s) => {
+      const base = { date: s.date, name: s.name || "(No description)", amount: s.amount, account };
+      const transaction: Transaction = {
+        id: crypto.randomUUID(),
+        userId,
+        ...base,
+        ...classify(s.name, s.amount, s.bankCategory),
+        accountId: target?.id ?? null,
+        transferId: null,
+        signRule: "signed",
+        fingerprint: fingerprint(base),
+        externalId: s.externalId,
+        importBatchId: batchId,
+        splits: null,
+        tags: [],
+        note: "",
+      };
+      return { row: s.row, transaction }; // statements have no header row; rows count transactions
+    });
+
+    const batch = {
+      id: batchId,
+      userId,
+      createdAt: new Date().toISOString(),
+      fileName: req.file.originalname,
+      account,
+      accountId: target?.id ?? null,
+      accountType,
+      format,
+      profileId: null,
+      signRule: "signed" as const,
+      statementBalance: statement.balance,
+    };
+    const summary = {
+      format,
+      account,
+      statement: { accountNumber: statement.accountNumber, balance: statement.balance },
+      ...(statement.dates && { dates: statement.dates }),
+      rejected: statement.rejected,
+    };
+    const { body, imported } = await saveImport(dryRun, candidates, batch, summary);
+
+    // An account whose first transactions come from a statement gets the
+    // opening balance that makes its balance match the statement's.
+    if (imported && target && !earlier && statement.balance) {
+      const asOf = statement.balance.date;
+      const upToStatement = (await store.transactions.find((t) => t.accountId === target.id && t.date <= asOf)).reduce(
+        (s, t) => s + t.amount,
+        0
+      );
+      await store.accounts.update(target.id, { openingBalance: statement.balance.amount - upToStatement });
+    }
+    res.json(body);
+  });
+
+  /* =========================
+     Import Batches
+  ========================= */
+
+  router.get("/transactions/imports", async (req, res) => {
+    const userId = currentUserId(req);
+    const batches = await store.importBatches.find((b) => b.userId === userId);
+    res.json(batches.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+  });
+
+  // Undo an import: removes every transaction that batch added.
+  router.delete("/transactions/imports/:id", async (req, res) => {
+    const userId = currentUserId(req);
+    const batch = await store.importBatches.get(req.params.id);
+    if (!batch || batch.userId !== userId) {
+      return res.status(404).json({ error: "Import batch not found" });
+    }
+
+    const batchTransactions = await store.transactions.find((t) => t.userId === userId && t.importBatchId === batch.id);
+    for (const t of batchTransactions) if (t.transferId) await unlink(userId, t.transferId);
+
+    const removed = await store.transactions.remove((t) => t.userId === userId && t.importBatchId === batch.id);
+    await store.importBatches.remove((b) => b.id === batch.id);
+    const removedIds = new Set(batchTransactions.map((t) => t.id));
+    await removeAttachments(store, (a) => removedIds.has(a.transactionId));
+    res.json({ ok: true, removed });
+  });
+
+  /* =========================
+     Transfers
+  ========================= */
+
+  // Transfers are excluded from income and expense insights. Matching runs on
+  // every import; this re-runs it over all of the user's transactions.
+  router.post("/transactions/transfers/match", async (req, res) => {
+    const userId = currentUserId(req);
+    const transactions = await store.transactions.find((t) => t.userId === userId);
+    res.json({ ok: true, linked: await linkTransfers(userId, transactions) });
+  });
+
+  // Links two transactions by hand, e.g. when the automatic match missed them.
+  router.post("/transactions/:id/transfer", async (req, res) => {
+    const parsed = transferSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalid(res, "Invalid transfer", parsed.error);
+    }
+
+    const userId = currentUserId(req);
+    const [tx, other] = await Promise.all([
+      store.transactions.get(req.params.id),
+      store.transactions.get(parsed.data.counterpartId),
+    ]);
+    if (!tx || tx.userId !== userId || !other || other.userId !== userId) {
+      return res.status(404).json({ error: "Transaction not found" });
+    }
+    if (tx.transferId || other.transferId) {
+      return res.status(409).json({ error: "Transaction is already part of a transfer" });
+    }
+    if (tx.id === other.id || tx.accountId === other.accountId) {
+      return invalidField(res, "Invalid transfer", "counterpartId", "A transfer needs two transactions on different accounts");
+    }
+
+    await link([[tx, other]]);
+    res.json(await store.transactions.find((t) => t.id === tx.id || t.id === other.id));
+  });
+
+  router.delete("/transactions/:id/transfer", async (req, res) => {
+    const userId = currentUserId(req);
+    const tx = await store.transactions.get(req.params.id);
+    if (!tx || tx.userId !== userId || !tx.transferId) {
+      return res.status(404).json({ error: "Transfer not found" });
+    }
+    res.json({ ok: true, unlinked: await unlink(userId, tx.transferId) });
+  });
+
+  return router;
+}
@@ -0,0 +1,72 @@
+import crypto from "node:crypto";
+import { normalizeName } from "./imports";
+import { merchantKey } from "./merchants";
+import type { CategoryRule } from "./types";
+
+/* =========================
+   Default Rules
+========================= */
+
+// Seeded for every new user; they can edit or delete any of these.
+const DEFAULTS: Array<Pick<CategoryRule, "matchType" | "pattern" | "minAmount" | "priority" | "category">> = [
+  { matchType: "amount-range", pattern: "", minAmount: 0.01, priority: 100, category: "Income" },
+  { matchType: "regex", pattern: "\\brent\\b", minAmount: null, priority: 90, category: "Housing" },
+  { matchType: "regex", pattern: "grocery|supermarket|trader joe|whole foods", minAmount: null, priority: 80, category: "Groceries" },
+  { matchType: "regex", pattern: "\\b(gas|shell|exxon|bp)\\b", minAmount: null, priority: 70, category: "Gas" },
+  { matchType: "regex", pattern: "uber|lyft|taxi", minAmount: null, priority: 60, category: "Transport" },
+  { matchType: "regex", pattern: "netflix|spotify|hulu|disney", minAmount: null, priority: 50, category: "Subscriptions" },
+  { matchType: "regex", pattern: "electric|utility|water|coned|pseg", minAmount: null, priority: 40, category: "Utilities" },
+  { matchType: "regex", pattern: "internet|verizon|optimum|comcast", minAmount: null, priority: 30, category: "Internet" },
+  { matchType: "regex", pattern: "coffee|starbucks|dunkin", minAmount: null, priority: 20, category: "Coffee" },
+  { matchType: "regex", pattern: "chipotle|mcdonald|restaurant|pizza", minAmount: null, priority: 10, category: "Dining" },
+];
+
+export function defaultRules(userId: string): CategoryRule[] {
+  const createdAt = new Date().toISOString();
+  return DEFAULTS.map((d) => ({
+    id: crypto.randomUUID(),
+    userId,
+    maxAmount: null,
+    enabled: true,
+    createdAt,
+    ...d,
+  }));
+}
+
+/* =========================
+   Matching
+========================= */
+
+export function matchesRule(rule: CategoryRule, name: string, amount: number): boolean {
+  switch (rule.matchType) {
+    case "contains":
+      return name.toLowerCase().includes(rule.pattern.toLowerCase());
+    case "regex":
+      try {
+        return new RegExp(rule.pattern, "i").test(name);
+      } catch {
+        return false;
+      }
+    // Either the whole descriptor or the merchant it cleans up to, so "Blue
+    // Bottle" matches "SQ *BLUE BOTTLE 0423 OAKLAND CA".
+    case "merchant":
+      return normalizeName(name) === normalizeName(rule.pattern) || merchantKey(name) === merchantKey(rule.pattern);
+    case "amount-range":
+      return (rule.minAmount === null || amount >= rule.minAmount) && (rule.maxAmount === null || amount <= rule.maxAmount);
+  }
+}
+
+/** Highest priority first; among equals, the older rule wins. */
+export function sortRules(rules: CategoryRule[]) {
+  return [...rules].sort((a, b) => b.priority - a.priority || a.createdAt.localeCompare(b.createdAt));
+}
+
+/** The first enabled rule that matches decides; null when none do. */
+export function findRule(rules: CategoryRule[], name: string, amount: number): CategoryRule | null {
+  if (!name.trim()) return null;
+  return sortRules(rules).find((r) => r.enabled && matchesRule(r, name, amount)) ?? null;
+}
+
+export function categorize(rules: CategoryRule[], name: string, amount: number): string {
+  return findRule(rules, name, amount)?.category ?? "Uncategorized";
+}
@@ -0,0 +1,74 @@
+import { daysInMonth, shiftMonth } from "./budgets";
+import { nextOccurrence } from "./recurring";
+import type { PaySchedule, UserSettings } from "./types";
+
+/* =========================
+   Defaults
+========================= */
+
+export type Settings = Omit<UserSettings, "id" | "userId" | "updatedAt">;
+
+export const DEFAULT_SETTINGS: Settings = {
+  expectedMonthlyIncome: null,
+  paySchedule: null,
+  nextPayday: null,
+  currency: "USD",
+  locale: "en-US",
+};
+
+/** The user's stored settings, or the defaults if they never saved any. */
+export function resolveSettings(record: UserSettings | undefined): Settings {
+  if (!record) return { ...DEFAULT_SETTINGS };
+  const { id: _id, userId: _userId, updatedAt: _updatedAt, ...settings } = record;
+  return settings;
+}
+
+/* =========================
+   Money Formatting
+========================= */
+
+export type Money = (n: number) => string;
+
+export function moneyFormatter(settings: Pick<Settings, "currency" | "locale">): Money {
+  const format = new Intl.NumberFormat(settings.locale, { style: "currency", currency: settings.currency });
+  return (n) => format.format(n);
+}
+
+/* =========================
+   Expected Income
+========================= */
+
+const PAYCHECKS_PER_YEAR: Record<PaySchedule, number> = { weekly: 52, biweekly: 26, semimonthly: 24, monthly: 12 };
+
+/** Expected income over `months` calendar months (may be fractional), or null when the user hasn't set one. */
+export function expectedIncome(settings: Settings, months: number) {
+  return settings.expectedMonthlyIncome === null ? null : settings.expectedMonthlyIncome * months;
+}
+
+export type Payday = { date: string; amount: number };
+
+/**
+ * Paydays after `after`, up to and including `end`, each paying an even share
+ * of the expected monthly income. Semimonthly pay lands on the 15th and the
+ * last day of the month; the other schedules step from `nextPayday`. Empty
+ * when the schedule can't be worked out.
+ */
+export function paydays(settings: Settings, after: string, end: string): Payday[] {
+  const { expectedMonthlyIncome: monthly, paySchedule: schedule, nextPayday } = settings;
+  if (monthly === null || schedule === null) return [];
+  const amount = (monthly * 12) / PAYCHECKS_PER_YEAR[schedule];
+  const dates: string[] = [];
+
+  if (schedule === "semimonthly") {
+    for (let month = after.slice(0, 7); `${month}-01` <= end; month = shiftMonth(month, 1)) {
+      dates.push(`${month}-15`, `${month}-${daysInMonth(month)}`);
+    }
+  } else if (nextPayday !== null) {
+    // Past anchors are rolled forward; future ones are kept as is.
+    let date = nextPayday;
+    while (date <= after) date = nextOccurrence(date, schedule);
+    for (; date <= end; date = nextOccurrence(date, schedule)) dates.push(date);
+  }
+
+  return dates.filter((d) => d > after && d <= end).map((date) => ({ date, amount }));
+}
@@ -0,0 +1,45 @@
+import { cents } from "./transfers";
+import type { Transaction, TransactionSplit } from "./types";
+
+/* =========================
+   Split Transactions
+========================= */
+
+/**
+ * Expands split transactions into one transaction per split (same id, date,
+ * name and account; the split's amount and category), for anything that adds
+ * up spending by category. Unsplit transactions pass through as they are.
+ */
+export function allocate(transactions: Transaction[]): Transaction[] {
+  return transactions.flatMap((t) =>
+    t.splits === null
+      ? [t]
+      : t.splits.map((s) => ({
+          ...t,
+          amount: s.amount,
+          category: s.category,
+          categorySource: "manual" as const,
+          categoryConfidence: null,
+          splits: null,
+        }))
+  );
+}
+
+/** Every category the transaction's amount counts toward. */
+export function categoriesOf(t: Transaction) {
+  return (t.splits ?? [t]).map((s) => s.category || "Uncategorized");
+}
+
+/** Why `splits` can't be applied to a transaction of `amount`, or null if they can. */
+export function splitError(amount: number, splits: TransactionSplit[]) {
+  if (splits.length < 2) return "A split needs at least two parts";
+  if (splits.some((s) => s.amount === 0 || Math.sign(s.amount) !== Math.sign(amount))) {
+    return "Every part must be non-zero and have the same sign as the transaction";
+  }
+  // Sums are compared in cents so 19.99 + 80.01 matches 100.
+  const total = splits.reduce((sum, s) => sum + cents(s.amount), 0);
+  if (total !== cents(amount)) {
+    return `Parts add up to ${(total / 100).toFixed(2)}, not the transaction's ${amount.toFixed(2)}`;
+  }
+  return null;
+}
@@ -0,0 +1,263 @@
+import { dateProblem, parseDate, resolveDateOrder, type DateOrder, type DateResolution } from "./dates";
+import type { RejectedRow } from "./imports";
+import { normalizeAmount } from "./profiles";
+import type { AccountKind } from "./types";
+
+/* =========================
+   Statements
+========================= */
+
+// What OFX/QFX and QIF files have in common. Amounts are already signed
+// (+income/-expense) in both formats, credit cards included.
+export type StatementTransaction = {
+  row: number; // position among the file's transactions, counting rejected ones, from 1
+  date: string; // YYYY-MM-DD
+  name: string;
+  amount: number;
+  externalId: string | null; // the bank's FITID; QIF has none
+  bankCategory: string;
+};
+
+export type Statement = {
+  accountNumber: string | null;
+  accountName: string | null; // QIF only
+  accountKind: AccountKind | null; // null when the file doesn't say
+  balance: { amount: number; date: string } | null; // closing (ledger) balance
+  transactions: StatementTransaction[];
+  rejected: RejectedRow[]; // transactions whose date or amount couldn't be read, by `row`
+  dates: DateResolution | null; // how numeric dates were read; null for OFX, whose dates are unambiguous
+};
+
+export type StatementFormat = "ofx" | "qif";
+
+// A transaction's date and amount as written and as read (null or NaN when they couldn't be).
+type ReadFields = { rawDate: string; date: string | null; order: DateOrder; rawAmount: string; amount: number };
+
+// Adds the transaction to `statement`, or reports the field that couldn't be
+// read in `rejected`, with the same reasons as the CSV import.
+function addTransaction(
+  statement: Statement,
+  read: ReadFields,
+  transaction: Omit<StatementTransaction, "row" | "date" | "amount">
+) {
+  const row = statement.transactions.length + statement.rejected.length + 1;
+  if (!read.date) {
+    statement.rejected.push({ row, field: "date", value: read.rawDate, reason: dateProblem(read.rawDate, read.order) });
+  } else if (!read.rawAmount) {
+    statement.rejected.push({ row, field: "amount", value: "", reason: "Missing amount" });
+  } else if (!Number.isFinite(read.amount)) {
+    statement.rejected.push({ row, field: "amount", value: read.rawAmount, reason: "Not a number" });
+  } else {
+    statement.transactions.push({ row, date: read.date, amount: read.amount, ...transaction });
+  }
+}
+
+/** Sniffs the format from the file's contents; QFX is OFX with an Intuit header. */
+export function detectStatementFormat(text: string): StatementFormat | null {
+  const head = text.slice(0, 2000).trimStart();
+  if (/^OFXHEADER:|<\?OFX|<OFX>/i.test(head)) return "ofx";
+  if (/^!(Type|Account|Option)/i.test(head)) return "qif";
+  return null;
+}
+
+/* =========================
+   OFX / QFX
+========================= */
+
+const OFX_ACCOUNT_KINDS: Record<string, AccountKind> = {
+  CHECKING: "checking",
+  SAVINGS: "savings",
+  MONEYMRKT: "savings",
+  CREDITLINE: "credit-card",
+};
+
+// YYYYMMDD, optionally followed by a time and time zone (20250110120000[-5:EST]).
+function ofxDate(raw: string) {
+  return /^\d{8}/.test(raw) ? parseDate(raw.slice(0, 8), "MDY") : null;
+}
+
+function decodeEntities(s: string) {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Reads OFX 1.x (SGML, leaf tags left open) and 2.x (XML) alike: both are a
+ * stream of tags where a leaf's value is the text after its opening tag.
+ * One Statement per STMTRS/CCSTMTRS block.
+ */
+export function parseOfx(text: string): Statement[] {
+  const body = text.slice(Math.max(0, text.search(/<OFX>/i)));
+  const statements: Statement[] = [];
+  let statement: Statement | null = null;
+  let trn: Record<string, string> | null = null;
+  let section: "ledger" | null = null;
+  let ledger: Record<string, string> = {};
+
+  for (const m of body.matchAll(/<(\/?)([A-Za-z0-9.]+)>([^<]*)/g)) {
+    const closing = m[1] === "/";
+    const tag = m[2]!.toUpperCase();
+    const value = decodeEntities(m[3]!.trim());
+
+    if (tag === "STMTRS" || tag === "CCSTMTRS") {
+      if (closing) {
+        statement = null;
+        continue;
+      }
+      statement = {
+        accountNumber: null,
+        accountName: null,
+        accountKind: tag === "CCSTMTRS" ? "credit-card" : null,
+        balance: null,
+        transactions: [],
+        rejected: [],
+        dates: null,
+      };
+      statements.push(statement);
+      continue;
+    }
+    if (!statement) continue;
+
+    if (tag === "STMTTRN") {
+      if (!closing) trn = {};
+      else if (trn) {
+        const rawDate = trn.DTPOSTED ?? "";
+        const rawAmount = trn.TRNAMT ?? "";
+        // Some banks write decimal commas (-12,50).
+        const amount = normalizeAmount(rawAmount.replace(/,(\d{1,2})$/, ".$1"));
+        addTransaction(
+          statement,
+          { rawDate, date: ofxDate(rawDate), order: "MDY", rawAmount, amount },
+          { name: trn.NAME || trn.PAYEE || trn.MEMO || "", externalId: trn.FITID || null, bankCategory: "" }
+        );
+        trn = null;
+      }
+      continue;
+    }
+    if (tag === "LEDGERBAL") {
+      if (!closing) {
+        section = "ledger";
+        ledger = {};
+      } else {
+        section = null;
+        const date = ofxDate(ledger.DTASOF ?? "");
+        const amount = normalizeAmount(ledger.BALAMT ?? "");
+        if (date && ledger.BALAMT && Number.isFinite(amount)) statement.balance = { amount, date };
+      }
+      continue;
+    }
+    if (closing || !value) continue;
+
+    if (trn) trn[tag] ??= value; // NAME inside <PAYEE> doesn't override a direct NAME
+    else if (section === "ledger") ledger[tag] = value;
+    else if (tag === "ACCTID") statement.accountNumber = value;
+    else if (tag === "ACCTTYPE") statement.accountKind = OFX_ACCOUNT_KINDS[value.toUpperCase()] ?? statement.accountKind;
+  }
+
+  return statements;
+}
+
+/* =========================
+   QIF
+========================= */
+
+const QIF_ACCOUNT_KINDS: Record<string, AccountKind> = {
+  bank: "checking",
+  ccard: "credit-card",
+  cash: "cash",
+};
+
+// Quicken writes dates with an apostrophe before a two-digit year (1/ 5'25),
+// sometimes padded with spaces: "1/5/25" once cleaned up.
+function qifDate(raw: string) {
+  return raw.replace(/\s/g, "").replace("'", "/");
+}
+
+/**
+ * Reads QIF transaction lists. QIF has no account numbers or bank ids, but
+ * an `!Account` block before the list may give the account's name (N), type
+ * (T) and balance ($, as of date /). Quicken writes US dates, but exports
+ * from elsewhere may be DD/MM, so the order is settled for the whole file as
+ * for CSVs; `requested` forces it.
+ */
+export function parseQif(text: string, requested: DateOrder | null = null): Statement[] {
+  const statements: Statement[] = [];
+  let statement: Statement | null = null;
+  let inAccount = false;
+  let account: Record<string, string> = {};
+  let record: Record<string, string> = {};
+
+  // Dates are read once the whole file has been seen.
+  const balances: Array<{ statement: Statement; amount: string; date: string }> = [];
+  const records: Array<{ statement: Statement; record: Record<string, string> }> = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (!line) continue;
+
+    if (line.startsWith("!")) {
+      const header = line.slice(1).toLowerCase();
+      if (header === "account") {
+        inAccount = true;
+        account = {};
+      } else if (header.startsWith("type:")) {
+        const kind = header.slice(5).trim();
+        statement = {
+          accountNumber: null,
+          accountName: account.N || null,
+          accountKind: QIF_ACCOUNT_KINDS[kind] ?? QIF_ACCOUNT_KINDS[(account.T ?? "").toLowerCase()] ?? null,
+          balance: null,
+          transactions: [],
+          rejected: [],
+          dates: null,
+        };
+        statements.push(statement);
+        if (account.$) balances.push({ statement, amount: account.$, date: qifDate(account["/"] ?? "") });
+        inAccount = false;
+        account = {};
+      }
+      continue;
+    }
+
+    const code = line[0]!;
+    const value = line.slice(1).trim();
+
+    if (code === "^") {
+      if (!inAccount && statement) records.push({ statement, record });
+      record = {};
+      continue;
+    }
+
+    if (inAccount) account[code] = value;
+    else record[code] ??= value;
+  }
+
+  // QIF has no profile to fall back on, so files with no telling date are read as US dates.
+  const dates = resolveDateOrder(records.map((r) => qifDate(r.record.D ?? "")), "YYYY-MM-DD", requested);
+  for (const s of statements) s.dates = dates;
+
+  for (const b of balances) {
+    const date = parseDate(b.date, dates.order);
+    const amount = normalizeAmount(b.amount);
+    if (date && Number.isFinite(amount)) b.statement.balance = { amount, date };
+  }
+
+  for (const { statement, record } of records) {
+    const rawDate = qifDate(record.D ?? "");
+    const rawAmount = record.T ?? record.U ?? "";
+    // L holds a category, or "[Other account]" for transfers.
+    const category = (record.L ?? "").startsWith("[") ? "" : (record.L ?? "").split(":")[0]!;
+    addTransaction(
+      statement,
+      { rawDate, date: parseDate(rawDate, dates.order), order: dates.order, rawAmount, amount: normalizeAmount(rawAmount) },
+      { name: record.P || record.M || "", externalId: null, bankCategory: category }
+    );
+  }
+
+  return statements;
+}
@@ -0,0 +1,190 @@
+import crypto from "node:crypto";
+
+/* =========================
+   Frozen Migration Logic
+========================= */
+
+// Copies of application code as it was when the migration using it shipped.
+// A migration has to do the same thing to a data file whenever it finally
+// runs, so it must not follow later changes to fingerprints, default rules,
+// date parsing or the merchant directory. Never edit these; a migration that
+// needs newer behavior gets its own copy.
+
+/* ---- v3, v15: transaction fingerprints ---- */
+
+function normalizeName(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function fingerprint(tx: { date: string; name: string; amount: number; account: string }) {
+  const key = [tx.date, normalizeName(tx.name), tx.amount.toFixed(2), tx.account.trim().toLowerCase()].join("|");
+  return crypto.createHash("sha256").update(key).digest("hex").slice(0, 32);
+}
+
+/* ---- v6: default categorization rules ---- */
+
+const DEFAULT_RULES = [
+  { matchType: "amount-range", pattern: "", minAmount: 0.01, priority: 100, category: "Income" },
+  { matchType: "regex", pattern: "\\brent\\b", minAmount: null, priority: 90, category: "Housing" },
+  { matchType: "regex", pattern: "grocery|supermarket|trader joe|whole foods", minAmount: null, priority: 80, category: "Groceries" },
+  { matchType: "regex", pattern: "\\b(gas|shell|exxon|bp)\\b", minAmount: null, priority: 70, category: "Gas" },
+  { matchType: "regex", pattern: "uber|lyft|taxi", minAmount: null, priority: 60, category: "Transport" },
+  { matchType: "regex", pattern: "netflix|spotify|hulu|disney", minAmount: null, priority: 50, category: "Subscriptions" },
+  { matchType: "regex", pattern: "electric|utility|water|coned|pseg", minAmount: null, priority: 40, category: "Utilities" },
+  { matchType: "regex", pattern: "internet|verizon|optimum|comcast", minAmount: null, priority: 30, category: "Internet" },
+  { matchType: "regex", pattern: "coffee|starbucks|dunkin", minAmount: null, priority: 20, category: "Coffee" },
+  { matchType: "regex", pattern: "chipotle|mcdonald|restaurant|pizza", minAmount: null, priority: 10, category: "Dining" },
+];
+
+export function defaultRules(userId: string) {
+  const createdAt = new Date().toISOString();
+  return DEFAULT_RULES.map((d) => ({
+    id: crypto.randomUUID(),
+    userId,
+    maxAmount: null,
+    enabled: true,
+    createdAt,
+    ...d,
+  }));
+}
+
+/* ---- v15: US-order date parsing ---- */
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const ISO = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[t\s].*)?$/;
+const COMPACT = /^(\d{4})(\d{2})(\d{2})$/;
+const NUMERIC = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/;
+const DAY_FIRST = /^(?:[a-z]+,?\s+)?(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]+)\.?,?[\s-]+(\d{2}|\d{4})$/;
+const MONTH_FIRST = /^(?:[a-z]+,?\s+)?([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/;
+
+function fullYear(y: string) {
+  if (y.length === 4) return Number(y);
+  const n = Number(y);
+  return n < 70 ? 2000 + n : 1900 + n;
+}
+
+function monthNumber(name: string) {
+  const i = name.length < 3 ? -1 : MONTHS.findIndex((full) => full.startsWith(name));
+  return i === -1 ? null : i + 1;
+}
+
+function isoDate(year: number, month: number, day: number) {
+  if (month < 1 || month > 12 || day < 1) return null;
+  if (day > new Date(Date.UTC(year, month, 0)).getUTCDate()) return null;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/** YYYY-MM-DD, or null; all-numeric dates are read month first. */
+export function parseUsDate(raw: string): string | null {
+  const s = raw.trim().toLowerCase().replace(/\s+/g, " ");
+
+  let m = ISO.exec(s) ?? COMPACT.exec(s);
+  if (m) return isoDate(Number(m[1]), Number(m[2]), Number(m[3]));
+
+  m = NUMERIC.exec(s);
+  if (m) return isoDate(fullYear(m[3]!), Number(m[1]), Number(m[2]));
+
+  m = DAY_FIRST.exec(s);
+  if (m) {
+    const month = monthNumber(m[2]!);
+    return month ? isoDate(fullYear(m[3]!), month, Number(m[1])) : null;
+  }
+
+  m = MONTH_FIRST.exec(s);
+  if (m) {
+    const month = monthNumber(m[1]!);
+    return month ? isoDate(Number(m[3]), month, Number(m[2])) : null;
+  }
+
+  return null;
+}
+
+/* ---- v17: merchant names from the built-in directory ---- */
+
+const BANK_PREFIX =
+  /^(pos( purchase| debit)?|debit card( purchase)?|checkcard( \d{4})?|purchase( authorized on \S+)?|recurring( payment)?|preauthorized|ach( debit| credit)?)\s+/i;
+const PROCESSOR_PREFIX = /^(sq|sqr|squ|tst|toast|pp|paypal|sp|gglpay|google|goog|ic|dd|wpy|pay)\s*\*\s*/i;
+const CARD_SUFFIX = /\s+(x{2,}|\*{2,}|card\s+|ending in\s+)\d{2,}\b.*$/i;
+const STORE_WORD = /^(store|str|no\.?|num|#)$/i;
+const US_STATES = new Set(
+  ("al ak az ar ca co ct de dc fl ga hi id il in ia ks ky la me md ma mi mn ms mo mt ne nv nh nj nm ny nc nd " +
+    "oh ok or pa ri sc sd tn tx ut vt va wa wv wi wy").split(" ")
+);
+
+const titleCase = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+function cleanMerchant(raw: string) {
+  let s = raw.trim();
+  for (let prefix = BANK_PREFIX.exec(s); prefix; prefix = BANK_PREFIX.exec(s)) s = s.slice(prefix[0].length);
+  s = s.replace(PROCESSOR_PREFIX, "");
+
+  const star = s.indexOf("*");
+  if (star > 0) s = s.slice(0, star);
+
+  s = s.split(/\s{2,}/)[0] ?? "";
+  s = s.replace(CARD_SUFFIX, "");
+
+  let words = s.split(/\s+/).filter(Boolean);
+  const number = words.findIndex((w, i) => i > 0 && /\d/.test(w));
+  if (number !== -1) words = words.slice(0, STORE_WORD.test(words[number - 1]!) && number > 1 ? number - 1 : number);
+  if (words.length > 1 && US_STATES.has(words[words.length - 1]!.toLowerCase())) words.pop();
+
+  const cleaned = words
+    .map((w) => w.replace(/^www\./i, "").replace(/\.(com|net|org|co|io)$/i, "").replace(/^[#\-.,]+|[#\-.,]+$/g, ""))
+    .filter(Boolean)
+    .map(titleCase)
+    .join(" ");
+  return cleaned || raw.trim();
+}
+
+// Name and aliases of each built-in merchant; categories don't matter here.
+const BUILTIN_MERCHANTS: Array<[string, string[]]> = [
+  ["Amazon", ["amazon", "amzn", "amzn mktp", "amazon mktplace"]],
+  ["Target", ["target"]],
+  ["Walmart", ["walmart", "wal mart", "wm supercenter"]],
+  ["Costco", ["costco", "costco whse"]],
+  ["Whole Foods", ["whole foods", "wholefds", "wfm"]],
+  ["Trader Joe's", ["trader joe", "trader joe s", "trader joes"]],
+  ["Starbucks", ["starbucks", "sbux"]],
+  ["Blue Bottle", ["blue bottle"]],
+  ["Dunkin'", ["dunkin"]],
+  ["Chipotle", ["chipotle"]],
+  ["McDonald's", ["mcdonald", "mcdonalds", "mcdonald s"]],
+  ["Shell", ["shell", "shell oil", "shell service"]],
+  ["Uber", ["uber"]],
+  ["Lyft", ["lyft"]],
+  ["Netflix", ["netflix"]],
+  ["Spotify", ["spotify"]],
+];
+
+/** The built-in merchant a descriptor belongs to, or its cleaned name. */
+export function builtinMerchantName(raw: string) {
+  const key = normalizeName(cleanMerchant(raw));
+  if (!key) return "";
+
+  let best: { name: string; length: number } | null = null;
+  for (const [name, aliases] of BUILTIN_MERCHANTS) {
+    for (const alias of [name, ...aliases].map(normalizeName)) {
+      if (!alias || (key !== alias && !key.startsWith(`${alias} `))) continue;
+      if (!best || alias.length > best.length) best = { name, length: alias.length };
+    }
+  }
+  return best ? best.name : cleanMerchant(raw);
+}
@@ -0,0 +1,21 @@
+import { createMemoryStore } from "./memory";
+import { openJsonStore } from "./json";
+import type { Store } from "./store";
+
+export type { Collection, Data, Store } from "./store";
+export { createMemoryStore } from "./memory";
+
+/* =========================
+   Driver Selection
+========================= */
+
+// STORE_DRIVER=memory keeps everything in RAM (handy for tests and demos);
+// the default writes a JSON file at DATA_FILE.
+export async function openStore(): Promise<Store> {
+  const driver = process.env.STORE_DRIVER ?? "json";
+
+  if (driver === "memory") return createMemoryStore();
+  if (driver === "json") return openJsonStore(process.env.DATA_FILE ?? "data/finance-robot.json");
+
+  throw new Error(`Unknown STORE_DRIVER "${driver}" (expected "json" or "memory")`);
+}
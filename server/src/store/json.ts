@@ -0,0 +1,39 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createStore, type Store } from "./store";
+import { migrate } from "./migrations";
+
+/* =========================
+   JSON File Store
+========================= */
+
+async function readJson(file: string): Promise<Record<string, any>> {
+  try {
+    return JSON.parse(await readFile(file, "utf8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw err;
+  }
+}
+
+export async function openJsonStore(file: string): Promise<Store> {
+  const data = migrate(await readJson(file));
+
+  // Write to a temp file and rename so a crash mid-write can't truncate the data.
+  async function write() {
+    await mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.tmp`;
+    await writeFile(tmp, JSON.stringify(data, null, 2));
+    await rename(tmp, file);
+  }
+
+  // Serialize writes; a failed write shouldn't block the ones queued after it.
+  let queue: Promise<void> = Promise.resolve();
+  function persist() {
+    queue = queue.catch(() => {}).then(write);
+    return queue;
+  }
+
+  await persist();
+  return createStore(data, persist);
+}
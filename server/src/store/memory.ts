@@ -0,0 +1,11 @@
+import { createStore, type Data, type Store } from "./store";
+import { migrate } from "./migrations";
+
+/* =========================
+   In-Memory Store
+========================= */
+
+// Nothing is written anywhere; data lives as long as the process does.
+export function createMemoryStore(seed: Partial<Data> = {}): Store {
+  return createStore(migrate(seed), async () => {});
+}
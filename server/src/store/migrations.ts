@@ -0,0 +1,226 @@
+import crypto from "node:crypto";
+import { builtinMerchantName, defaultRules, fingerprint, parseUsDate } from "./frozen";
+import type { Data } from "./store";
+
+/* =========================
+   Schema Migrations
+========================= */
+
+// Migrations run in order against the raw persisted object, each one bringing
+// it from `version - 1` to `version`. Never edit a migration once it has
+// shipped; add a new one instead. Logic a migration needs comes from
+// frozen.ts, never from application code that may change later.
+type Migration = {
+  version: number;
+  description: string;
+  up: (data: Record<string, any>) => void;
+};
+
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: "Create transactions collection",
+    up: (data) => {
+      data.transactions ??= [];
+    },
+  },
+  {
+    version: 2,
+    description: "Add users and refresh tokens; scope transactions to a user",
+    up: (data) => {
+      data.users ??= [];
+      data.refreshTokens ??= [];
+      // Unowned rows are claimed by the first account to register.
+      for (const t of data.transactions) t.userId ??= "";
+    },
+  },
+  {
+    version: 3,
+    description: "Add import batches and transaction fingerprints",
+    up: (data) => {
+      data.importBatches ??= [];
+      for (const t of data.transactions) {
+        t.account ??= "";
+        t.importBatchId ??= null;
+        t.fingerprint ??= fingerprint(t);
+      }
+    },
+  },
+  {
+    version: 4,
+    description: "Add user import profiles; record the profile on each import batch",
+    up: (data) => {
+      data.importProfiles ??= [];
+      for (const b of data.importBatches) b.profileId ??= null;
+    },
+  },
+  {
+    version: 5,
+    description: "Explicit sign rules on profiles, batches and transactions",
+    up: (data) => {
+      const renamed: Record<string, string> = {
+        "expenses-negative": "signed",
+        "expenses-positive": "inverted",
+        guess: "auto",
+      };
+      for (const p of data.importProfiles) p.sign = renamed[p.sign] ?? p.sign;
+      for (const b of data.importBatches) {
+        b.accountType ??= null;
+        b.signRule ??= "guess";
+      }
+      for (const t of data.transactions) t.signRule ??= t.importBatchId ? "guess" : "manual";
+    },
+  },
+  {
+    version: 6,
+    description: "Add categorization rules, seeded with the old built-in categories",
+    up: (data) => {
+      data.categoryRules ??= [];
+      for (const u of data.users) data.categoryRules.push(...defaultRules(u.id));
+    },
+  },
+  {
+    version: 7,
+    description: "Track where each transaction's category came from",
+    up: (data) => {
+      for (const t of data.transactions) {
+        t.categorySource ??= "rule";
+        t.categoryConfidence ??= null;
+      }
+    },
+  },
+  {
+    version: 8,
+    description: "Add budgets",
+    up: (data) => {
+      data.budgets ??= [];
+    },
+  },
+  {
+    version: 9,
+    description: "Add accounts, created from existing account labels, and transfer links",
+    up: (data) => {
+      data.accounts ??= [];
+      const ids = new Map<string, string>(); // `${userId}\n${label}` -> account id
+
+      for (const t of data.transactions) {
+        t.transferId ??= null;
+        t.accountId ??= null;
+        if (!t.account || !t.userId) continue;
+
+        const key = `${t.userId}\n${t.account}`;
+        if (!ids.has(key)) {
+          const cardBatch = data.importBatches.some(
+            (b: Record<string, any>) => b.userId === t.userId && b.account === t.account && b.accountType === "credit-card"
+          );
+          const id = crypto.randomUUID();
+          data.accounts.push({
+            id,
+            userId: t.userId,
+            name: t.account,
+            kind: cardBatch ? "credit-card" : "checking",
+            openingBalance: 0,
+            createdAt: new Date().toISOString(),
+          });
+          ids.set(key, id);
+        }
+        t.accountId = ids.get(key);
+      }
+
+      for (const b of data.importBatches) b.accountId ??= ids.get(`${b.userId}\n${b.account}`) ?? null;
+    },
+  },
+  {
+    version: 10,
+    description: "Add advice rule settings and dismissed advice",
+    up: (data) => {
+      data.adviceSettings ??= [];
+      data.adviceDismissals ??= [];
+    },
+  },
+  {
+    version: 11,
+    description: "Add savings goals",
+    up: (data) => {
+      data.goals ??= [];
+    },
+  },
+  {
+    version: 12,
+    description: "Add user settings",
+    up: (data) => {
+      data.settings ??= [];
+    },
+  },
+  {
+    version: 13,
+    description: "Add bank ids, account numbers and statement details for OFX/QIF imports",
+    up: (data) => {
+      for (const t of data.transactions) t.externalId ??= null;
+      for (const a of data.accounts) a.number ??= null;
+      for (const b of data.importBatches) {
+        b.format ??= "csv";
+        b.statementBalance ??= null;
+      }
+    },
+  },
+  {
+    version: 14,
+    description: "Add split transactions",
+    up: (data) => {
+      for (const t of data.transactions) t.splits ??= null;
+    },
+  },
+  {
+    version: 15,
+    description: "Normalize stored transaction dates to YYYY-MM-DD",
+    up: (data) => {
+      // Older imports stored unrecognized dates as written. Numeric ones are
+      // read as US dates; anything unparseable is left for the user to fix.
+      for (const t of data.transactions) {
+        const date = parseUsDate(t.date);
+        if (!date || date === t.date) continue;
+        t.date = date;
+        t.fingerprint = fingerprint(t);
+      }
+    },
+  },
+  {
+    version: 16,
+    description: "Add tags and notes to transactions, and attachments",
+    up: (data) => {
+      data.attachments ??= [];
+      for (const t of data.transactions) {
+        t.tags ??= [];
+        t.note ??= "";
+      }
+    },
+  },
+  {
+    version: 17,
+    description: "Add the merchant directory; store each transaction's canonical merchant",
+    up: (data) => {
+      data.merchants ??= [];
+      for (const t of data.transactions) t.merchant ??= builtinMerchantName(t.name);
+    },
+  },
+];
+
+export const LATEST_VERSION = migrations[migrations.length - 1]?.version ?? 0;
+
+export function migrate(raw: Record<string, any>): Data {
+  const data = { ...raw };
+  const current = typeof data.version === "number" ? data.version : 0;
+
+  if (current > LATEST_VERSION) {
+    throw new Error(`Data file is at schema v${current}, but this server only knows up to v${LATEST_VERSION}`);
+  }
+
+  for (const m of migrations) {
+    if (m.version <= current) continue;
+    m.up(data);
+    data.version = m.version;
+  }
+
+  return data as Data;
+}
@@ -0,0 +1,137 @@
+import type {
+  Account,
+  AdviceDismissal,
+  AdviceSetting,
+  Attachment,
+  Budget,
+  CategoryRule,
+  Goal,
+  ImportBatch,
+  ImportProfile,
+  Merchant,
+  RefreshToken,
+  Transaction,
+  User,
+  UserSettings,
+} from "../types";
+
+/* =========================
+   Schema
+========================= */
+
+// Every persisted entity lives in a named collection. Adding an entity means
+// adding it here, to createStore() below, and writing a migration for it.
+export type Collections = {
+  users: User;
+  refreshTokens: RefreshToken;
+  transactions: Transaction;
+  importBatches: ImportBatch;
+  importProfiles: ImportProfile;
+  categoryRules: CategoryRule;
+  budgets: Budget;
+  accounts: Account;
+  adviceSettings: AdviceSetting;
+  adviceDismissals: AdviceDismissal;
+  goals: Goal;
+  settings: UserSettings;
+  attachments: Attachment;
+  merchants: Merchant;
+};
+
+export type CollectionName = keyof Collections;
+
+export type Data = { version: number } & { [K in CollectionName]: Collections[K][] };
+
+export interface Collection<T extends { id: string }> {
+  all(): Promise<T[]>;
+  find(predicate: (item: T) => boolean): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  insert(items: T[]): Promise<void>;
+  update(id: string, patch: Partial<T>): Promise<T | undefined>;
+  // Applies every patch, then persists once; resolves to how many matched.
+  updateMany(patches: Array<Partial<T> & { id: string }>): Promise<number>;
+  remove(predicate: (item: T) => boolean): Promise<number>;
+}
+
+export type Store = { [K in CollectionName]: Collection<Collections[K]> };
+
+/* =========================
+   Shared Implementation
+========================= */
+
+function collection<K extends CollectionName>(
+  data: Data,
+  name: K,
+  persist: () => Promise<void>
+): Collection<Collections[K]> {
+  type T = Collections[K];
+  const items = () => data[name] as T[];
+
+  // Hand out copies so callers can't mutate stored records without persisting.
+  const copy = (item: T): T => structuredClone(item);
+
+  return {
+    async all() {
+      return items().map(copy);
+    },
+    async find(predicate) {
+      return items().filter(predicate).map(copy);
+    },
+    async get(id) {
+      const found = items().find((i) => i.id === id);
+      return found && copy(found);
+    },
+    async insert(newItems) {
+      items().push(...newItems.map(copy));
+      await persist();
+    },
+    async update(id, patch) {
+      const found = items().find((i) => i.id === id);
+      if (!found) return undefined;
+      Object.assign(found, patch, { id });
+      await persist();
+      return copy(found);
+    },
+    async updateMany(patches) {
+      if (patches.length === 0) return 0;
+      const byId = new Map(items().map((i) => [i.id, i]));
+      let updated = 0;
+      for (const patch of patches) {
+        const found = byId.get(patch.id);
+        if (!found) continue;
+        Object.assign(found, patch);
+        updated++;
+      }
+      if (updated > 0) await persist();
+      return updated;
+    },
+    async remove(predicate) {
+      const kept = items().filter((i) => !predicate(i));
+      const removed = items().length - kept.length;
+      if (removed === 0) return 0;
+      (data[name] as T[]) = kept;
+      await persist();
+      return removed;
+    },
+  };
+}
+
+/** Wraps already-migrated data; `persist` is called after every mutation. */
+export function createStore(data: Data, persist: () => Promise<void>): Store {
+  return {
+    users: collection(data, "users", persist),
+    refreshTokens: collection(data, "refreshTokens", persist),
+    transactions: collection(data, "transactions", persist),
+    importBatches: collection(data, "importBatches", persist),
+    importProfiles: collection(data, "importProfiles", persist),
+    categoryRules: collection(data, "categoryRules", persist),
+    budgets: collection(data, "budgets", persist),
+    accounts: collection(data, "accounts", persist),
+    adviceSettings: collection(data, "adviceSettings", persist),
+    adviceDismissals: collection(data, "adviceDismissals", persist),
+    goals: collection(data, "goals", persist),
+    settings: collection(data, "settings", persist),
+    attachments: collection(data, "attachments", persist),
+    merchants: collection(data, "merchants", persist),
+  };
+}
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+/* =========================
+   Tags
+========================= */
+
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+
+/** "Tax Deductible", "#tax-deductible" and " tax  deductible " all become "tax-deductible". */
+export function normalizeTag(raw: string) {
+  return raw.trim().replace(/^#+/, "").trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+const tagSchema = z
+  .string()
+  .transform(normalizeTag)
+  .pipe(z.string().min(1, "Tags can't be empty").max(MAX_TAG_LENGTH, `Tags are at most ${MAX_TAG_LENGTH} characters`));
+
+// A transaction's tags, normalized and de-duplicated in the order given.
+export const tagsSchema = z
+  .array(tagSchema)
+  .transform((tags) => Array.from(new Set(tags)))
+  .pipe(z.array(z.string()).max(MAX_TAGS, `At most ${MAX_TAGS} tags`));
@@ -0,0 +1,72 @@
+import { daysBetween } from "./dates";
+import type { Account, Transaction } from "./types";
+
+/* =========================
+   Transfer Matching
+========================= */
+
+// Both legs of a transfer rarely post on the same day.
+const TRANSFER_WINDOW_DAYS = 4;
+
+// Descriptions banks use for money moving between a customer's own accounts.
+const TRANSFER_HINT = /\b(transfer|xfer|trnsfr|autopay|auto pay|payment|pymt|pmt|epay)\b/i;
+
+// How card issuers describe a payment landing on the card: "THANK YOU", "PAYMENT RECEIVED".
+const CARD_PAYMENT_HINT = /\b(thank you|received|bill ?pay)\b/i;
+
+function daysApart(a: string, b: string) {
+  return Math.abs(daysBetween(a, b));
+}
+
+/** Whole cents, for comparing amounts without floating-point drift. */
+export function cents(amount: number) {
+  return Math.round(amount * 100);
+}
+
+// Opposite amounts on two accounts aren't enough on their own (a refund on one
+// card and a same-sized charge elsewhere look the same), so one side must read
+// like a transfer, or the incoming leg must read like a payment onto a credit card.
+function looksLikeTransfer(out: Transaction, into: Transaction, kinds: Map<string, Account["kind"]>) {
+  if (TRANSFER_HINT.test(out.name) || TRANSFER_HINT.test(into.name)) return true;
+  return kinds.get(into.accountId!) === "credit-card" && CARD_PAYMENT_HINT.test(into.name);
+}
+
+/**
+ * Pairs each candidate with the closest-dated unlinked transaction of the
+ * opposite amount on another account. `pool` is every transaction the match
+ * may use (it may include the candidates); linked ones are never re-paired.
+ */
+export function matchTransfers(
+  candidates: Transaction[],
+  pool: Transaction[],
+  accounts: Account[]
+): Array<[Transaction, Transaction]> {
+  const kinds = new Map(accounts.map((a) => [a.id, a.kind]));
+  const used = new Set<string>();
+  const pairs: Array<[Transaction, Transaction]> = [];
+  const open = (t: Transaction) => t.accountId !== null && t.transferId === null && !used.has(t.id);
+
+  for (const t of [...candidates].sort((a, b) => a.date.localeCompare(b.date))) {
+    if (!open(t) || t.amount === 0) continue;
+
+    let best: Transaction | undefined;
+    for (const other of pool) {
+      if (other.id === t.id || !open(other) || other.accountId === t.accountId) continue;
+      if (cents(other.amount) !== -cents(t.amount)) continue;
+
+      const gap = daysApart(t.date, other.date);
+      if (gap > TRANSFER_WINDOW_DAYS) continue;
+
+      const [out, into] = t.amount < 0 ? [t, other] : [other, t];
+      if (!looksLikeTransfer(out, into, kinds)) continue;
+      if (!best || gap < daysApart(t.date, best.date)) best = other;
+    }
+
+    if (best) {
+      used.add(t.id).add(best.id);
+      pairs.push(t.amount < 0 ? [t, best] : [best, t]);
+    }
+  }
+
+  return pairs;
+}
@@ -0,0 +1,102 @@
+import { addDays } from "./dates";
+import { allocate } from "./splits";
+import type { Transaction } from "./types";
+
+/* =========================
+   Time Buckets
+========================= */
+
+export type Interval = "week" | "month" | "year";
+
+/** First day of the bucket holding `date`; weeks start on Monday. */
+export function bucketStart(date: string, interval: Interval) {
+  if (interval === "year") return `${date.slice(0, 4)}-01-01`;
+  if (interval === "month") return `${date.slice(0, 7)}-01`;
+  const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7; // Monday = 0
+  return addDays(date, -weekday);
+}
+
+function nextBucket(start: string, interval: Interval) {
+  if (interval === "week") return addDays(start, 7);
+  const d = new Date(`${start}T00:00:00Z`);
+  if (interval === "month") d.setUTCMonth(d.getUTCMonth() + 1);
+  else d.setUTCFullYear(d.getUTCFullYear() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+function label(start: string, interval: Interval) {
+  if (interval === "year") return start.slice(0, 4);
+  if (interval === "month") return start.slice(0, 7);
+  return start;
+}
+
+/* =========================
+   Trends
+========================= */
+
+type Totals = { income: number; expenses: number; net: number };
+
+export type TrendBucket = Totals & {
+  period: string; // YYYY, YYYY-MM, or the Monday starting the week
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+  byCategory: Record<string, number>; // spend only, as positive amounts
+  average: Totals; // over this bucket and the `window - 1` before it
+  change: { [K in keyof Totals]: number | null }; // vs. the previous bucket; null if that was 0
+};
+
+function percentChange(current: number, previous: number) {
+  return previous === 0 ? null : (current - previous) / Math.abs(previous);
+}
+
+/**
+ * Buckets transactions by week, month or year. Buckets with no activity
+ * between the first and last transaction are included as zeros so charts
+ * and averages don't skip over quiet periods.
+ */
+export function trends(transactions: Transaction[], interval: Interval, window: number): TrendBucket[] {
+  if (transactions.length === 0) return [];
+
+  const sums = new Map<string, Totals & { byCategory: Record<string, number> }>();
+  for (const t of transactions) {
+    const start = bucketStart(t.date, interval);
+    const sum = sums.get(start) ?? { income: 0, expenses: 0, net: 0, byCategory: {} };
+    if (t.amount > 0) sum.income += t.amount;
+    else {
+      sum.expenses += Math.abs(t.amount);
+      for (const part of allocate([t])) {
+        const cat = part.category || "Uncategorized";
+        sum.byCategory[cat] = (sum.byCategory[cat] || 0) + Math.abs(part.amount);
+      }
+    }
+    sum.net += t.amount;
+    sums.set(start, sum);
+  }
+
+  const starts = [...sums.keys()].sort();
+  const last = starts[starts.length - 1]!;
+  const buckets: TrendBucket[] = [];
+
+  for (let start = starts[0]!; start <= last; start = nextBucket(start, interval)) {
+    const { byCategory, ...totals } = sums.get(start) ?? { income: 0, expenses: 0, net: 0, byCategory: {} };
+    const recent = [...buckets.slice(Math.max(0, buckets.length - window + 1)), totals];
+    const prev = buckets[buckets.length - 1];
+    const avg = (key: keyof Totals) => recent.reduce((s, b) => s + b[key], 0) / recent.length;
+
+    buckets.push({
+      period: label(start, interval),
+      start,
+      end: addDays(nextBucket(start, interval), -1),
+      ...totals,
+      byCategory,
+      average: { income: avg("income"), expenses: avg("expenses"), net: avg("net") },
+      change: {
+        income: prev ? percentChange(totals.income, prev.income) : null,
+        expenses: prev ? percentChange(totals.expenses, prev.expenses) : null,
+        net: prev ? percentChange(totals.net, prev.net) : null,
+      },
+    });
+  }
+
+  return buckets;
+}
@@ -0,0 +1,225 @@
+/* =========================
+   Domain Types
+========================= */
+
+export type User = {
+  id: string;
+  email: string; // stored lowercased
+  passwordHash: string;
+  createdAt: string; // ISO timestamp
+};
+
+// One row per issued refresh token, so refreshing can rotate (and revoke) them.
+export type RefreshToken = {
+  id: string;
+  userId: string;
+  expiresAt: string; // ISO timestamp
+};
+
+export type Transaction = {
+  id: string;
+  userId: string;
+  date: string; // YYYY-MM-DD
+  name: string; // as the bank wrote it
+  merchant: string; // canonical merchant, see resolveMerchant() in merchants.ts
+  amount: number; // +income, -expense
+  category: string;
+  categorySource: CategorySource;
+  categoryConfidence: number | null; // 0–1, only for "learned"
+  account: string; // source account label, "" if unknown
+  accountId: string | null; // the Account it belongs to, null if unassigned
+  transferId: string | null; // shared by both legs of a transfer between accounts
+  signRule: SignRule; // how the amount's sign was derived on import
+  fingerprint: string; // see fingerprint() in imports.ts
+  externalId: string | null; // the bank's id (OFX FITID), unique per account
+  importBatchId: string | null; // null for manually added transactions
+  splits: TransactionSplit[] | null; // null unless split across categories
+  tags: string[]; // lowercase, no spaces, e.g. "tax-deductible"; see normalizeTag()
+  note: string;
+};
+
+// Part of a transaction's amount allocated to its own category. A split
+// transaction's parts add up to its amount, and category insights use the
+// parts instead of the transaction's own category (see splits.ts).
+export type TransactionSplit = {
+  amount: number; // same sign as the transaction's
+  category: string;
+  note: string;
+};
+
+// A file kept with a transaction, such as a receipt. The bytes are stored on
+// disk under ATTACHMENTS_DIR, named by the attachment's id (see attachments.ts).
+export type Attachment = {
+  id: string;
+  userId: string;
+  transactionId: string;
+  fileName: string; // as uploaded
+  mimeType: string;
+  size: number; // bytes
+  createdAt: string; // ISO timestamp
+};
+
+// A real-world account that transactions are imported into. The balance is
+// derived: openingBalance plus the sum of the account's transactions.
+export type Account = {
+  id: string;
+  userId: string;
+  name: string; // unique per user, copied onto Transaction.account
+  kind: AccountKind;
+  number: string | null; // as given in OFX/QIF statements, used to match them to the account
+  openingBalance: number;
+  createdAt: string; // ISO timestamp
+};
+
+export type AccountKind = "checking" | "savings" | "credit-card" | "cash";
+
+// Where a transaction's category came from. "manual" edits are what the
+// learner trains on, and re-applying rules leaves them alone. "merchant" is
+// the default category of the merchant directory entry it matched.
+export type CategorySource = "rule" | "bank" | "learned" | "merchant" | "manual";
+
+// Maps bank descriptors to one canonical merchant. Built-in entries live in
+// merchants.ts with `userId: null`; a user's own entries take precedence.
+export type Merchant = {
+  id: string;
+  userId: string | null;
+  name: string; // canonical display name, copied onto Transaction.merchant
+  aliases: string[]; // descriptor beginnings that mean this merchant, e.g. "amzn mktp"
+  category: string | null; // default category for its transactions
+};
+
+// "contains" and "regex" test the description (case-insensitive), "merchant"
+// compares normalized names exactly, "amount-range" checks the signed amount.
+export type CategoryRule = {
+  id: string;
+  userId: string;
+  matchType: "contains" | "regex" | "merchant" | "amount-range";
+  pattern: string; // unused for "amount-range"
+  minAmount: number | null; // inclusive; only for "amount-range"
+  maxAmount: number | null;
+  priority: number; // higher runs first
+  category: string;
+  enabled: boolean;
+  createdAt: string; // ISO timestamp
+};
+
+// A monthly spending plan for one category. `month: null` applies to every
+// month unless a month-specific budget overrides it.
+export type Budget = {
+  id: string;
+  userId: string;
+  category: string;
+  month: string | null; // YYYY-MM
+  amount: number;
+  rollover: boolean; // carry last month's unspent (or overspent) amount forward
+  createdAt: string; // ISO timestamp
+};
+
+// Something to save up for. Progress comes from the linked account's balance,
+// or from what was put into the linked category since `startDate`, on top of
+// `startingAmount`.
+export type Goal = {
+  id: string;
+  userId: string;
+  name: string;
+  targetAmount: number;
+  targetDate: string | null; // YYYY-MM-DD
+  accountId: string | null; // at most one of accountId and category is set
+  category: string | null;
+  startingAmount: number; // saved before tracking began
+  startDate: string; // YYYY-MM-DD, first day category contributions count
+  createdAt: string; // ISO timestamp
+};
+
+// A user's overrides for one advice rule (see ADVICE_RULES in advice.ts).
+// Thresholds not listed here use the rule's defaults.
+export type AdviceSetting = {
+  id: string;
+  userId: string;
+  ruleId: string;
+  enabled: boolean;
+  thresholds: Record<string, number>;
+};
+
+// Hides one advice item (by its stable id) for good, or until a date.
+export type AdviceDismissal = {
+  id: string;
+  userId: string;
+  adviceId: string;
+  until: string | null; // YYYY-MM-DD, exclusive; null = forever
+  createdAt: string; // ISO timestamp
+};
+
+export type PaySchedule = "weekly" | "biweekly" | "semimonthly" | "monthly";
+
+// A user's preferences, at most one per user. Users without a record get
+// DEFAULT_SETTINGS (see settings.ts).
+export type UserSettings = {
+  id: string;
+  userId: string;
+  expectedMonthlyIncome: number | null; // stands in for recorded income in insights
+  paySchedule: PaySchedule | null;
+  nextPayday: string | null; // YYYY-MM-DD; anchors weekly, biweekly and monthly schedules
+  currency: string; // ISO 4217 code
+  locale: string; // BCP 47 tag, for number and date formatting
+  updatedAt: string; // ISO timestamp
+};
+
+// One per CSV upload, so a whole import can be reviewed or undone later.
+export type ImportBatch = {
+  id: string;
+  userId: string;
+  createdAt: string; // ISO timestamp
+  fileName: string;
+  account: string;
+  accountId: string | null;
+  accountType: AccountType | null;
+  format: ImportFormat;
+  profileId: string | null; // CSV only; null for batches imported before profiles existed
+  signRule: SignRule;
+  statementBalance: { amount: number; date: string } | null; // closing balance from an OFX/QIF statement
+  added: number;
+  duplicates: number;
+};
+
+export type ImportFormat = "csv" | "ofx" | "qif";
+
+// Describes how to read one bank's CSV export. Built-in profiles live in
+// profiles.ts with `userId: null`; user-saved ones are stored per user.
+export type ImportProfile = {
+  id: string;
+  userId: string | null;
+  name: string;
+  delimiter: string;
+  dateFormat: DateFormat;
+  sign: SignConvention;
+  columns: ColumnMapping;
+  signature: string[]; // headers that must all be present for auto-detection
+};
+
+export type DateFormat = "YYYY-MM-DD" | "MM/DD/YYYY" | "DD/MM/YYYY" | "MM/DD/YY";
+
+// "signed": amounts already follow +income/-expense (bank exports, some cards);
+// "inverted": charges are positive and payments negative (most card exports);
+// "auto": decided per file, see chooseSignRule() in profiles.ts.
+export type SignConvention = "signed" | "inverted" | "auto";
+
+// Recorded on each transaction. "debit-credit" means separate Debit/Credit
+// columns; "manual" is typed in by the user; "guess" marks rows imported by
+// the old description-based heuristic.
+export type SignRule = "signed" | "inverted" | "debit-credit" | "manual" | "guess";
+
+// "credit-card": charges are expenses, payments reduce the balance owed;
+// "deposit": checking/savings, deposits and paychecks are income.
+export type AccountType = "credit-card" | "deposit";
+
+// Header names (matched case-insensitively). A list means "first one present".
+// Either `amount` or `debit`/`credit` must be set.
+export type ColumnMapping = {
+  date: string | string[];
+  name: string | string[];
+  amount?: string | string[];
+  debit?: string;
+  credit?: string;
+  category?: string;
+};
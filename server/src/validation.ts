@@ -0,0 +1,53 @@
+import type { ErrorRequestHandler, Response } from "express";
+import { z } from "zod";
+
+/* =========================
+   Error Envelope
+========================= */
+
+// Every error response has this shape. `error` is a short summary, `detail`
+// explains it for people, and `fields` maps each invalid field's path (e.g.
+// "splits.1.amount") to its message so forms can point at the input.
+export type ErrorBody = {
+  error: string;
+  detail?: string;
+  fields?: Record<string, string>;
+};
+
+/** The first message for each invalid field; issues about the whole body only show in `detail`. */
+export function fieldErrors(error: z.ZodError) {
+  const fields: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const path = issue.path.map(String).join(".");
+    if (path) fields[path] ??= issue.message;
+  }
+  return fields;
+}
+
+/** Responds 400 for a request that failed a zod schema. */
+export function invalid(res: Response, error: string, zodError: z.ZodError) {
+  const body: ErrorBody = { error, detail: z.prettifyError(zodError), fields: fieldErrors(zodError) };
+  return res.status(400).json(body);
+}
+
+/** Responds 400 for one bad field that a schema couldn't check, e.g. a missing upload. */
+export function invalidField(res: Response, error: string, field: string, message: string) {
+  const body: ErrorBody = { error, detail: message, fields: { [field]: message } };
+  return res.status(400).json(body);
+}
+
+// Last in the chain: malformed JSON, upload errors and anything a route throws
+// still answer with the envelope instead of Express's HTML error page.
+export const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  const status = typeof err?.status === "number" ? err.status : err?.name === "MulterError" ? 400 : 500;
+  let body: ErrorBody;
+  if (status >= 500) {
+    console.error(err);
+    body = { error: "Internal server error" };
+  } else if (err?.type === "entity.parse.failed") {
+    body = { error: "Invalid JSON body", detail: String(err.message) };
+  } else {
+    body = { error: err?.name === "MulterError" ? "Invalid upload" : "Bad request", detail: String(err?.message ?? err) };
+  }
+  res.status(status).json(body);
+};